@@ -0,0 +1,28 @@
+import esbuild from "esbuild";
+import process from "process";
+import { spawnSync } from "child_process";
+import { readdirSync, rmSync } from "fs";
+
+// Bundles each src/*.test.ts for Node and runs them with Node's test runner
+const outdir = ".test-build";
+const tests = readdirSync("src").filter(name => name.endsWith(".test.ts"));
+
+rmSync(outdir, { recursive: true, force: true });
+await esbuild.build({
+	entryPoints: tests.map(name => `src/${name}`),
+	bundle: true,
+	external: ["obsidian"],
+	platform: "node",
+	format: "cjs",
+	target: "node16",
+	logLevel: "warning",
+	outdir,
+});
+
+const run = spawnSync(
+	process.execPath,
+	["--test", ...tests.map(name => `${outdir}/${name.replace(/\.ts$/, ".js")}`)],
+	{ stdio: "inherit" }
+);
+rmSync(outdir, { recursive: true, force: true });
+process.exit(run.status ?? 1);
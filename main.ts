@@ -1,14 +1,31 @@
 import { App, Plugin, PluginManifest, Notice } from "obsidian";
-import { GitHubSyncSettings, DEFAULT_SETTINGS } from "./src/types";
+import { GitHubSyncSettings, SyncProfile, SyncResult, PushResult, FileChange, SyncTrigger, RateLimitStatus } from "./src/types";
 import { GitHubSyncSettingTab } from "./src/settings";
 import { SyncEngine } from "./src/sync-engine";
 import { SyncStateManager } from "./src/sync-state";
 import { Logger } from "./src/logger";
+import { SyncPreviewModal } from "./src/sync-preview-modal";
+import { ProfileSuggestModal } from "./src/profile-suggest-modal";
+import { SyncScheduler } from "./src/sync-scheduler";
+import { SnapshotManager } from "./src/snapshot-manager";
+import { SyncHistory } from "./src/sync-history";
+import { ResponseCache } from "./src/response-cache";
+import { BlobCache } from "./src/blob-cache";
+import { SyncHistoryView, SYNC_HISTORY_VIEW_TYPE } from "./src/sync-history-view";
+import { SyncStatusIndicator } from "./src/sync-status-indicator";
+import { loadSettingsData, getStateFileName, isProfileConfigured, findFolderConflicts } from "./src/profiles";
 
 export default class GitHubSyncPlugin extends Plugin {
 	settings: GitHubSyncSettings;
-	syncEngine: SyncEngine;
-	private stateManager: SyncStateManager;
+	private syncEngines: Map<string, SyncEngine> = new Map();
+	private scheduler: SyncScheduler;
+	private history: SyncHistory;
+	private responseCache: ResponseCache;
+	private blobCache: BlobCache;
+	private statusIndicator: SyncStatusIndicator;
+	// Profiles whose sync is waiting for the API rate limit to reset
+	private deferredProfiles = new Set<string>();
+	private deferredTimer: number | null = null;
 	logger: Logger;
 
 	constructor(app: App, manifest: PluginManifest) {
@@ -34,33 +51,58 @@ export default class GitHubSyncPlugin extends Plugin {
 			this.logger?.info("Loading settings...");
 			await this.loadSettings();
 			this.logger?.info("Settings loaded", {
-				hasRepo: !!this.settings.repositoryUrl,
-				hasPAT: !!this.settings.personalAccessToken,
-				branch: this.settings.branch,
+				profiles: this.settings.profiles.map(profile => ({
+					name: profile.name,
+					hasRepo: !!profile.repositoryUrl,
+					hasPAT: !!profile.personalAccessToken,
+					branch: profile.branch
+				})),
 				autoSync: this.settings.autoSyncOnLaunch
 			});
 
-			// Initialize sync state manager
-			this.logger?.info("Initializing sync state manager...");
-			this.stateManager = new SyncStateManager(this.app, this.manifest.id, this.logger);
-			this.logger?.info("Sync state manager initialized");
+			// Sync history is shared by all profiles
+			this.history = new SyncHistory(this.app, this.manifest.id, this.logger);
+			await this.history.load();
+			this.registerView(SYNC_HISTORY_VIEW_TYPE, leaf => new SyncHistoryView(leaf, this.history));
 
-			// Initialize sync engine
-			this.logger?.info("Initializing sync engine...");
-			this.syncEngine = new SyncEngine(
+			// ETags of tree, ref and repository responses, shared by all profiles
+			this.responseCache = new ResponseCache(this.app, this.manifest.id, this.logger);
+			await this.responseCache.load();
+
+			// Downloaded contents by blob SHA, shared by all profiles
+			this.blobCache = new BlobCache(
 				this.app,
-				this.settings,
-				this.stateManager,
+				this.manifest.id,
 				this.logger,
-				() => this.saveSettings()
+				() => this.settings.blobCacheMB * 1024 * 1024
+			);
+			await this.blobCache.load();
+
+			// Status bar (desktop) / pinned status element (mobile)
+			this.statusIndicator = new SyncStatusIndicator(
+				this,
+				() => Math.max(0, ...this.settings.profiles.map(profile => profile.lastSyncTime)),
+				state => {
+					if (state === "idle") {
+						void this.syncAllProfiles(true);
+					} else if (state === "syncing") {
+						this.cancelSyncs();
+					} else {
+						void this.openHistoryView();
+					}
+				}
 			);
-			this.logger?.info("Sync engine initialized");
+
+			// Initialize one sync engine (with its own state file) per profile
+			this.logger?.info("Initializing sync engines...");
+			this.refreshEngines();
+			this.logger?.info(`Sync engines initialized for ${this.syncEngines.size} profile(s)`);
 
 			// Add ribbon icon for manual sync
 			this.logger?.info("Adding ribbon icon...");
 			this.addRibbonIcon("refresh-cw", "Sync from GitHub", async () => {
 				this.logger?.info("Ribbon icon clicked - starting manual sync");
-				await this.syncEngine.performSync(true);
+				await this.syncAllProfiles(true);
 			});
 			this.logger?.info("Ribbon icon added");
 
@@ -69,17 +111,84 @@ export default class GitHubSyncPlugin extends Plugin {
 			this.addSettingTab(new GitHubSyncSettingTab(this.app, this));
 			this.logger?.info("Settings tab added");
 
-			// Add command for manual sync
-			this.logger?.info("Adding command...");
+			// Add commands for manual sync
+			this.logger?.info("Adding commands...");
 			this.addCommand({
 				id: "sync-from-github",
-				name: "Sync from GitHub",
+				name: "Sync from GitHub (all profiles)",
 				callback: async () => {
-					this.logger?.info("Command executed - starting manual sync");
-					await this.syncEngine.performSync(true);
+					this.logger?.info("Command executed - starting manual sync of all profiles");
+					await this.syncAllProfiles(true);
+				}
+			});
+
+			this.addCommand({
+				id: "sync-profile-from-github",
+				name: "Sync one profile from GitHub",
+				callback: () => {
+					this.chooseProfile(profile => {
+						this.logger?.info(`Command executed - starting manual sync of profile ${profile.name}`);
+						void this.syncProfile(profile, true);
+					});
+				}
+			});
+
+			this.addCommand({
+				id: "preview-sync-from-github",
+				name: "Preview sync",
+				callback: () => {
+					this.chooseProfile(profile => {
+						this.logger?.info(`Command executed - starting preview sync of profile ${profile.name}`);
+						void this.syncProfile(
+							profile,
+							true,
+							(changes, rateLimit, toLocal) =>
+								new SyncPreviewModal(this.app, changes, rateLimit, toLocal).openAndWait(),
+							"preview"
+						);
+					});
+				}
+			});
+			this.addCommand({
+				id: "cancel-sync",
+				name: "Cancel sync",
+				checkCallback: (checking: boolean) => {
+					if (!this.isSyncing()) {
+						return false;
+					}
+					if (!checking) {
+						this.logger?.info("Command executed - cancelling running syncs");
+						this.cancelSyncs();
+					}
+					return true;
+				}
+			});
+			this.addCommand({
+				id: "push-to-github",
+				name: "Push to GitHub",
+				callback: () => {
+					this.chooseProfile(profile => {
+						this.logger?.info(`Command executed - starting push of profile ${profile.name}`);
+						void this.pushProfile(profile);
+					});
+				}
+			});
+			this.addCommand({
+				id: "revert-last-sync",
+				name: "Revert last sync",
+				callback: () => {
+					this.chooseProfile(profile => {
+						this.logger?.info(`Command executed - reverting last sync of profile ${profile.name}`);
+						void this.syncEngines.get(profile.id)?.revertLastSync();
+					});
 				}
 			});
-			this.logger?.info("Command added");
+			this.addCommand({
+				id: "open-sync-history",
+				name: "Open sync history",
+				callback: () => void this.openHistoryView()
+			});
+			this.logger?.info("Commands added");
 
 			// Auto-sync on launch if enabled and configured
 			const isConfigured = this.isConfigured();
@@ -98,13 +207,34 @@ export default class GitHubSyncPlugin extends Plugin {
 				this.registerInterval(window.setTimeout(() => {
 					this.logger?.info("Auto-sync timer triggered");
 					new Notice("Auto-syncing from GitHub...");
-					void this.syncEngine.performSync(true);
+					void this.syncAllProfiles(true, "launch");
+				}, 2000));
+			} else if (isConfigured) {
+				// Syncs cut short by the app closing are finished even when
+				// auto-sync is off, so the vault is not left half-updated.
+				this.registerInterval(window.setTimeout(() => {
+					void this.resumeInterruptedSyncs();
 				}, 2000));
-			} else if (!isConfigured) {
+			} else {
 				this.logger?.info("Plugin not configured - showing setup notice");
 				new Notice("Please configure repository and token in settings", 8000);
 			}
 
+			// Interval and focus/resume syncs
+			this.scheduler = new SyncScheduler(
+				this.settings,
+				this.logger,
+				async trigger => this.isConfigured() ? await this.syncAllProfiles(false, trigger) : [],
+				() => this.isSyncing()
+			);
+			this.scheduler.restart();
+			this.registerDomEvent(window, "focus", () => this.scheduler.onAppResumed());
+			this.registerDomEvent(document, "visibilitychange", () => {
+				if (document.visibilityState === "visible") {
+					this.scheduler.onAppResumed();
+				}
+			});
+
 			this.logger?.info("=== Plugin Load Complete ===");
 		} catch (error) {
 			this.logger?.error("Fatal error during plugin load", error);
@@ -121,24 +251,232 @@ export default class GitHubSyncPlugin extends Plugin {
 
 	onunload() {
 		this.logger?.info("=== Plugin Unload ===");
+		this.scheduler?.stop();
+		this.statusIndicator?.dispose();
 		this.logger?.debug("Unloading GitHub Pull plugin");
 	}
 
 	async loadSettings() {
-		this.settings = Object.assign({}, DEFAULT_SETTINGS, await this.loadData());
+		this.settings = loadSettingsData(await this.loadData());
 	}
 
 	async saveSettings() {
 		await this.saveData(this.settings);
-		// Update sync engine with new settings
-		this.syncEngine?.updateSettings(this.settings);
+		// Update sync engines with new settings (and add/remove profiles)
+		this.refreshEngines();
+		this.scheduler?.updateSettings(this.settings);
+		// A lowered cache limit applies right away
+		await this.blobCache?.evict();
+	}
+
+	// Bytes held by the blob cache
+	get blobCacheSize(): number {
+		return this.blobCache?.size ?? 0;
+	}
+
+	async clearBlobCache(): Promise<void> {
+		await this.blobCache?.clear();
+	}
+
+	getEngine(profileId: string): SyncEngine | undefined {
+		return this.syncEngines.get(profileId);
+	}
+
+	async syncProfile(
+		profile: SyncProfile,
+		showProgress = true,
+		selectChanges?: (
+			changes: FileChange[],
+			rateLimit: RateLimitStatus | null,
+			toLocal: (path: string) => string
+		) => Promise<FileChange[] | null>,
+		trigger: SyncTrigger = "manual"
+	): Promise<SyncResult | null> {
+		const engine = this.getUsableEngine(profile, trigger);
+		if (!engine) {
+			return null;
+		}
+		const result = await engine.performSync(showProgress, selectChanges, trigger);
+		if (result.deferredUntil !== undefined) {
+			this.deferSync(profile, result.deferredUntil);
+		}
+		return result;
+	}
+
+	// Runs the profile's sync again once the API rate limit has reset. One
+	// timer serves every deferred profile.
+	private deferSync(profile: SyncProfile, resetAt: number): void {
+		this.deferredProfiles.add(profile.id);
+		if (this.deferredTimer !== null) {
+			window.clearTimeout(this.deferredTimer);
+		}
+		// A little slack so the reset has happened on GitHub's side too
+		const delay = Math.max(0, resetAt - Date.now()) + 5000;
+		this.logger?.info(`Sync of profile ${profile.name} deferred until ${new Date(resetAt).toISOString()}`);
+		this.deferredTimer = window.setTimeout(() => {
+			this.deferredTimer = null;
+			void this.resumeDeferredSyncs();
+		}, delay);
+		this.registerInterval(this.deferredTimer);
+	}
+
+	private async resumeDeferredSyncs(): Promise<void> {
+		const profileIds = Array.from(this.deferredProfiles);
+		this.deferredProfiles.clear();
+		for (const profile of this.settings.profiles.filter(p => profileIds.indexOf(p.id) !== -1)) {
+			this.logger?.info(`Resuming sync of profile ${profile.name} after the rate limit reset`);
+			await this.syncProfile(profile, true, undefined, "resume");
+		}
+	}
+
+	async pushProfile(profile: SyncProfile): Promise<PushResult | null> {
+		const engine = this.getUsableEngine(profile);
+		return engine ? await engine.performPush(true) : null;
+	}
+
+	// Returns the profile's engine unless the profile shares its vault folder
+	// with another profile, in which case neither may write to the vault.
+	// Background syncs only log that, so it doesn't pop up on every run.
+	private getUsableEngine(profile: SyncProfile, trigger: SyncTrigger = "manual"): SyncEngine | null {
+		const engine = this.syncEngines.get(profile.id);
+		if (!engine) {
+			this.logger?.error(`No sync engine for profile ${profile.name}`);
+			return null;
+		}
+
+		const folderConflicts = findFolderConflicts(profile, this.settings.profiles);
+		if (folderConflicts.length > 0) {
+			const names = folderConflicts.map(other => `"${other.name}"`).join(", ");
+			const message =
+				`Profile "${profile.name}" syncs into the same vault folder as ${names}. ` +
+				"Give each profile its own vault folder in settings.";
+			this.logger?.error(message);
+			if (trigger !== "launch" && trigger !== "interval" && trigger !== "focus") {
+				new Notice(message, 10000);
+			}
+			return null;
+		}
+
+		return engine;
+	}
+
+	// Profiles run one after another so they never write the vault concurrently.
+	async syncAllProfiles(showProgress = true, trigger: SyncTrigger = "manual"): Promise<SyncResult[]> {
+		const configured = this.settings.profiles.filter(isProfileConfigured);
+		if (configured.length === 0) {
+			new Notice("Please configure repository and token in settings", 8000);
+			return [];
+		}
+		const results: SyncResult[] = [];
+		for (const profile of configured) {
+			const result = await this.syncProfile(profile, showProgress, undefined, trigger);
+			if (result) {
+				results.push(result);
+			}
+			// Cancelling stops the remaining profiles too
+			if (result?.cancelled) {
+				break;
+			}
+		}
+		return results;
+	}
+
+	isSyncing(): boolean {
+		return Array.from(this.syncEngines.values()).some(engine => engine.syncing);
+	}
+
+	// Stops every running sync after its in-flight writes. Returns false when
+	// nothing was syncing.
+	cancelSyncs(): boolean {
+		let cancelled = false;
+		for (const engine of this.syncEngines.values()) {
+			cancelled = engine.cancelSync() || cancelled;
+		}
+		if (!cancelled) {
+			new Notice("No sync is running");
+		}
+		return cancelled;
+	}
+
+	private async resumeInterruptedSyncs(): Promise<void> {
+		for (const profile of this.settings.profiles.filter(isProfileConfigured)) {
+			const engine = this.syncEngines.get(profile.id);
+			if (!engine || engine.syncing) {
+				continue;
+			}
+			await engine.loadState();
+			if (engine.hasInterruptedSync) {
+				this.logger?.info(`Resuming interrupted sync of profile ${profile.name}`);
+				await this.syncProfile(profile, true, undefined, "resume");
+			}
+		}
+	}
+
+	private async openHistoryView(): Promise<void> {
+		const leaf = this.app.workspace.getLeavesOfType(SYNC_HISTORY_VIEW_TYPE)[0]
+			?? this.app.workspace.getRightLeaf(false);
+		if (!leaf) {
+			return;
+		}
+		await leaf.setViewState({ type: SYNC_HISTORY_VIEW_TYPE, active: true });
+		await this.app.workspace.revealLeaf(leaf);
+	}
+
+	private chooseProfile(onChoose: (profile: SyncProfile) => void): void {
+		const configured = this.settings.profiles.filter(isProfileConfigured);
+		if (configured.length === 0) {
+			new Notice("Please configure repository and token in settings", 8000);
+		} else if (configured.length === 1) {
+			onChoose(configured[0]);
+		} else {
+			new ProfileSuggestModal(this.app, configured, onChoose).open();
+		}
+	}
+
+	private refreshEngines(): void {
+		const profileIds = new Set(this.settings.profiles.map(profile => profile.id));
+		for (const id of Array.from(this.syncEngines.keys())) {
+			if (!profileIds.has(id)) {
+				this.syncEngines.delete(id);
+			}
+		}
+
+		for (const profile of this.settings.profiles) {
+			const existing = this.syncEngines.get(profile.id);
+			if (existing) {
+				existing.updateSettings(this.settings, profile);
+				continue;
+			}
+			const engine = new SyncEngine(
+				this.app,
+				this.settings,
+				profile,
+				new SyncStateManager(this.app, this.manifest.id, this.logger, getStateFileName(profile)),
+				new SnapshotManager(this.app, this.manifest.id, profile.id, this.logger),
+				this.history,
+				this.responseCache,
+				this.blobCache,
+				this.logger,
+				() => this.saveSettings(),
+				(profileId, localPath) => this.findPathOwner(profileId, localPath),
+				progress => this.statusIndicator?.update(progress)
+			);
+			this.syncEngines.set(profile.id, engine);
+			// Load state up front so path ownership checks see every profile's files.
+			void engine.loadState();
+		}
+	}
+
+	private findPathOwner(profileId: string, localPath: string): string | null {
+		for (const engine of this.syncEngines.values()) {
+			if (engine.profileId !== profileId && engine.claimsLocalPath(localPath)) {
+				return engine.profileName;
+			}
+		}
+		return null;
 	}
 
 	private isConfigured(): boolean {
-		return !!(
-			this.settings.repositoryUrl &&
-			this.settings.personalAccessToken &&
-			this.settings.branch
-		);
+		return this.settings.profiles.some(isProfileConfigured);
 	}
 }
\ No newline at end of file
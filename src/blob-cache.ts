@@ -0,0 +1,192 @@
+import { App } from "obsidian";
+import { DownloadedFile, LfsPointer } from "./types";
+import { Logger } from "./logger";
+import { computeGitBlobSha, computeSha256 } from "./git-hash";
+
+interface CachedBlob {
+	size: number;
+	lastUsed: number;
+	// Set when the blob is a Git LFS pointer and the cached bytes are the object
+	lfs?: LfsPointer;
+}
+
+// Downloaded file contents kept under .obsidian/plugins/<plugin>/blob-cache,
+// addressed by git blob SHA like Git's own object store, so content that was
+// already downloaded once (another branch, a reverted commit, a reinstall)
+// is not fetched again. Least recently used blobs are evicted past the size
+// limit; a limit of 0 turns the cache off.
+export class BlobCache {
+	private app: App;
+	private pluginId: string;
+	private logger: Logger;
+	private getMaxBytes: () => number;
+	private index = new Map<string, CachedBlob>();
+	private totalSize = 0;
+	private writeQueue: Promise<void> = Promise.resolve();
+	private writePending = false;
+
+	constructor(app: App, pluginId: string, logger: Logger, getMaxBytes: () => number) {
+		this.app = app;
+		this.pluginId = pluginId;
+		this.logger = logger;
+		this.getMaxBytes = getMaxBytes;
+	}
+
+	private get cacheDir(): string {
+		return `.obsidian/plugins/${this.pluginId}/blob-cache`;
+	}
+
+	private get indexPath(): string {
+		return `${this.cacheDir}/index.json`;
+	}
+
+	// Two-character folders keep any one folder small
+	private blobPath(sha: string): string {
+		return `${this.cacheDir}/${sha.substring(0, 2)}/${sha.substring(2)}`;
+	}
+
+	get enabled(): boolean {
+		return this.getMaxBytes() > 0;
+	}
+
+	// Bytes currently stored
+	get size(): number {
+		return this.totalSize;
+	}
+
+	async load(): Promise<void> {
+		this.index.clear();
+		this.totalSize = 0;
+		try {
+			const parsed = JSON.parse(await this.app.vault.adapter.read(this.indexPath));
+			for (const [sha, blob] of Array.isArray(parsed) ? parsed : []) {
+				this.index.set(sha, blob);
+				this.totalSize += blob.size;
+			}
+			this.logger.debug("Blob cache loaded", { blobs: this.index.size, size: this.totalSize });
+		} catch {
+			// No cache yet; blobs written without an index are overwritten later
+		}
+	}
+
+	has(sha: string): boolean {
+		return this.enabled && this.index.has(sha);
+	}
+
+	// Cached content of a blob, or null when it is not cached or the stored
+	// bytes no longer match their SHA
+	async get(sha: string): Promise<DownloadedFile | null> {
+		const blob = this.index.get(sha);
+		if (!blob || !this.enabled) {
+			return null;
+		}
+
+		try {
+			const content = await this.app.vault.adapter.readBinary(this.blobPath(sha));
+			const actual = blob.lfs ? await computeSha256(content) : await computeGitBlobSha(content);
+			if (actual !== (blob.lfs ? blob.lfs.oid : sha)) {
+				throw new Error("content does not match its hash");
+			}
+			blob.lastUsed = Date.now();
+			this.scheduleIndexWrite();
+			this.logger.debug(`Blob cache hit: ${sha}`, { size: content.byteLength });
+			return { content, lfs: blob.lfs };
+		} catch (error) {
+			this.logger.warn(`Dropping unreadable cached blob ${sha}`, error);
+			await this.remove(sha);
+			return null;
+		}
+	}
+
+	async put(sha: string, file: DownloadedFile): Promise<void> {
+		const maxBytes = this.getMaxBytes();
+		const size = file.content.byteLength;
+		if (maxBytes <= 0 || size > maxBytes || this.index.has(sha)) {
+			return;
+		}
+
+		try {
+			const path = this.blobPath(sha);
+			const folder = path.substring(0, path.lastIndexOf("/"));
+			if (!(await this.app.vault.adapter.exists(folder))) {
+				await this.app.vault.adapter.mkdir(folder);
+			}
+			await this.app.vault.adapter.writeBinary(path, file.content);
+		} catch (error) {
+			// The sync doesn't depend on the cache
+			this.logger.warn(`Failed to cache blob ${sha}`, error);
+			return;
+		}
+		// Another change with the same blob may have stored it meanwhile
+		if (this.index.has(sha)) {
+			return;
+		}
+		this.index.set(sha, { size, lastUsed: Date.now(), lfs: file.lfs });
+		this.totalSize += size;
+		await this.evict();
+		this.scheduleIndexWrite();
+	}
+
+	// Removes blobs, least recently used first, until the cache fits its limit
+	async evict(): Promise<void> {
+		const maxBytes = this.getMaxBytes();
+		if (this.totalSize <= maxBytes) {
+			return;
+		}
+		const byAge = Array.from(this.index.entries()).sort((a, b) => a[1].lastUsed - b[1].lastUsed);
+		let evicted = 0;
+		for (const [sha] of byAge) {
+			if (this.totalSize <= maxBytes) break;
+			await this.remove(sha);
+			evicted++;
+		}
+		this.logger.debug(`Evicted ${evicted} blob(s) from the cache`, { size: this.totalSize });
+	}
+
+	async clear(): Promise<void> {
+		this.index.clear();
+		this.totalSize = 0;
+		try {
+			if (await this.app.vault.adapter.exists(this.cacheDir)) {
+				await this.app.vault.adapter.rmdir(this.cacheDir, true);
+			}
+			this.logger.info("Blob cache cleared");
+		} catch (error) {
+			this.logger.warn("Failed to clear blob cache", error);
+		}
+	}
+
+	private async remove(sha: string): Promise<void> {
+		const blob = this.index.get(sha);
+		if (!blob) {
+			return;
+		}
+		this.index.delete(sha);
+		this.totalSize -= blob.size;
+		this.scheduleIndexWrite();
+		try {
+			await this.app.vault.adapter.remove(this.blobPath(sha));
+		} catch {
+			// Already gone
+		}
+	}
+
+	// Updates made in quick succession share one write
+	private scheduleIndexWrite(): void {
+		if (this.writePending) {
+			return;
+		}
+		this.writePending = true;
+		this.writeQueue = this.writeQueue
+			.then(async () => {
+				this.writePending = false;
+				if (!(await this.app.vault.adapter.exists(this.cacheDir))) {
+					await this.app.vault.adapter.mkdir(this.cacheDir);
+				}
+				await this.app.vault.adapter.write(this.indexPath, JSON.stringify(Array.from(this.index.entries())));
+			})
+			.catch(error => {
+				this.logger.warn("Failed to save blob cache index", error);
+			});
+	}
+}
@@ -13,15 +13,15 @@ export class FileManager {
 		// Ensure parent directories exist
 		await this.ensureDirectoryExists(normalizedPath);
 
-		// Determine if file is binary based on extension
-		const isBinary = this.isBinaryFile(normalizedPath);
+		// Determine if file is binary based on extension. Text files that
+		// aren't valid UTF-8 are written as bytes too.
+		const textContent = this.isBinaryFile(normalizedPath) ? null : this.decodeText(content);
 		
-		if (isBinary) {
+		if (textContent === null) {
 			// Handle binary files (images, PDFs, etc.)
 			await this.app.vault.adapter.writeBinary(normalizedPath, content);
 		} else {
 			// Handle text files (markdown, JSON, etc.)
-			const textContent = new TextDecoder().decode(content);
 			const existingFile = this.app.vault.getAbstractFileByPath(normalizedPath);
 
 			if (existingFile instanceof TFile) {
@@ -57,6 +57,18 @@ export class FileManager {
 		'.gitignore', '.gitattributes', '.editorconfig', '.npmrc'
 	]);
 
+	// Decodes UTF-8 text that re-encodes to the same bytes, so the file on
+	// disk still hashes to the blob SHA recorded in sync state. Keeps any BOM;
+	// returns null for invalid UTF-8, which decoding would replace with U+FFFD
+	// and which every later sync would then see as a local edit.
+	private decodeText(content: ArrayBuffer): string | null {
+		try {
+			return new TextDecoder("utf-8", { fatal: true, ignoreBOM: true }).decode(content);
+		} catch {
+			return null;
+		}
+	}
+
 	private isBinaryFile(path: string): boolean {
 		const lowerPath = path.toLowerCase();
 		const lastSlash = Math.max(lowerPath.lastIndexOf('/'), lowerPath.lastIndexOf('\\'));
@@ -78,6 +90,46 @@ export class FileManager {
 		}
 	}
 
+	async readFile(path: string): Promise<ArrayBuffer | null> {
+		const normalizedPath = normalizePath(path);
+		if (!(await this.app.vault.adapter.exists(normalizedPath))) {
+			return null;
+		}
+		return await this.app.vault.adapter.readBinary(normalizedPath);
+	}
+
+	// "notes/a.md" -> "notes/a.conflict.md", then "notes/a.conflict-2.md", ...
+	// so an earlier conflict copy is never overwritten by a later one.
+	async getConflictPath(path: string): Promise<string> {
+		const normalizedPath = normalizePath(path);
+		const lastSlash = normalizedPath.lastIndexOf("/");
+		const lastDot = normalizedPath.lastIndexOf(".");
+		const hasExt = lastDot > lastSlash + 1;
+		const base = hasExt ? normalizedPath.substring(0, lastDot) : normalizedPath;
+		const ext = hasExt ? normalizedPath.substring(lastDot) : "";
+
+		let candidate = `${base}.conflict${ext}`;
+		for (let n = 2; await this.app.vault.adapter.exists(candidate); n++) {
+			candidate = `${base}.conflict-${n}${ext}`;
+		}
+		return candidate;
+	}
+
+	// Moves a file through Obsidian's file manager so links to it are updated
+	// and open tabs follow it. Files outside the vault index are moved on disk.
+	async renameFile(fromPath: string, toPath: string): Promise<void> {
+		const normalizedFrom = normalizePath(fromPath);
+		const normalizedTo = normalizePath(toPath);
+		await this.ensureDirectoryExists(normalizedTo);
+
+		const file = this.app.vault.getAbstractFileByPath(normalizedFrom);
+		if (file instanceof TFile) {
+			await this.app.fileManager.renameFile(file, normalizedTo);
+		} else {
+			await this.app.vault.adapter.rename(normalizedFrom, normalizedTo);
+		}
+	}
+
 	async fileExists(path: string): Promise<boolean> {
 		const normalizedPath = normalizePath(path);
 		return await this.app.vault.adapter.exists(normalizedPath);
@@ -0,0 +1,22 @@
+// Git names a blob by the SHA-1 of "blob <size>\0" followed by the raw bytes,
+// so hashing local content this way yields a value directly comparable with
+// the SHAs in the repository tree and in the sync state.
+export async function computeGitBlobSha(content: ArrayBuffer): Promise<string> {
+	const header = new TextEncoder().encode(`blob ${content.byteLength}\0`);
+	const data = new Uint8Array(header.byteLength + content.byteLength);
+	data.set(header, 0);
+	data.set(new Uint8Array(content), header.byteLength);
+
+	return toHex(await crypto.subtle.digest("SHA-1", data));
+}
+
+// Git LFS names objects by the plain SHA-256 of their bytes.
+export async function computeSha256(content: ArrayBuffer): Promise<string> {
+	return toHex(await crypto.subtle.digest("SHA-256", content));
+}
+
+function toHex(digest: ArrayBuffer): string {
+	return Array.from(new Uint8Array(digest))
+		.map(b => ("0" + b.toString(16)).slice(-2))
+		.join("");
+}
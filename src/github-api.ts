@@ -3,75 +3,235 @@ import {
 	GitHubFile,
 	GitHubTreeResponse,
 	GitHubContentResponse,
-	GitHubBlobResponse
+	GitHubBlobResponse,
+	GitHubRefResponse,
+	GitHubCompareFile,
+	GitHubCompareResponse,
+	GitHubCommitResponse,
+	GitHubTreeEntry,
+	GitHubTagResponse,
+	RefType,
+	RateLimitStatus,
+	GitHubEndpointOverrides,
+	GitHubServerInfo,
+	DownloadedFile,
+	LfsBatchResponse,
+	LfsPointer
 } from "./types";
 import { Logger } from "./logger";
+import { parseLfsPointer } from "./lfs-pointer";
+import { computeGitBlobSha, computeSha256 } from "./git-hash";
+import { getHeader, getRateLimiter, RateLimiter, RateLimitError } from "./rate-limiter";
+import { ResponseCache } from "./response-cache";
+
+// The compare API lists at most 300 changed files; a result that size may
+// be incomplete and has to be replaced by a full tree diff.
+const COMPARE_FILE_LIMIT = 300;
+// Web URL of GitHub.com; any other host is treated as GitHub Enterprise Server
+const GITHUB_DOT_COM = "https://github.com";
+// Times one request is sent again after waiting out a rate limit response
+const MAX_RATE_LIMIT_RETRIES = 3;
+// Downloads of a file tried before its content is reported as corrupt
+const MAX_DOWNLOAD_ATTEMPTS = 3;
+
+// Thrown by getFileContent for LFS objects above the caller's size limit
+export class LfsObjectSkippedError extends Error {
+	size: number;
+
+	constructor(path: string, size: number) {
+		super(`Git LFS object for ${path} is ${size} bytes, above the size limit`);
+		this.name = "LfsObjectSkippedError";
+		this.size = size;
+	}
+}
+
+// Thrown by getFileContent when the downloaded bytes keep hashing to a
+// different git blob SHA than the tree lists
+export class ContentIntegrityError extends Error {
+	expectedSha: string;
+	actualSha: string;
+
+	constructor(path: string, expectedSha: string, actualSha: string) {
+		super(`Downloaded content of ${path} hashes to ${actualSha}, expected ${expectedSha}`);
+		this.name = "ContentIntegrityError";
+		this.expectedSha = expectedSha;
+		this.actualSha = actualSha;
+	}
+}
+
+// An HTTP error response. The message keeps requestUrl's "Request failed,
+// status N" wording, which callers match on, followed by GitHub's reason.
+export class GitHubRequestError extends Error {
+	status: number;
+
+	constructor(response: RequestUrlResponse) {
+		const reason = describeErrorResponse(response);
+		super(`Request failed, status ${response.status}${reason ? `: ${reason}` : ""}`);
+		this.name = "GitHubRequestError";
+		this.status = response.status;
+	}
+}
 
 export class GitHubAPI {
 	private owner: string;
 	private repo: string;
 	private token: string;
 	private branch: string;
-	private baseUrl = "https://api.github.com";
+	private refType: RefType;
+	private pinnedRef: string;
+	// Commit resolved by resolveCommitSHA; every read during a sync uses it so
+	// tree, contents and raw downloads all see the same snapshot.
+	private resolvedCommitSHA = "";
+	// Where the host serves its web pages (and Git LFS), REST API and raw files
+	private webUrl: string;
+	private baseUrl: string;
+	private rawUrl: string;
 	private logger: Logger;
+	private rateLimiter: RateLimiter;
+	private responseCache?: ResponseCache;
 
-	constructor(repositoryUrl: string, token: string, branch: string, logger: Logger) {
+	constructor(
+		repositoryUrl: string,
+		token: string,
+		branch: string,
+		logger: Logger,
+		refType: RefType = "branch",
+		pinnedRef = "",
+		responseCache?: ResponseCache,
+		endpoints: GitHubEndpointOverrides = {}
+	) {
 		this.logger = logger;
-		this.logger.debug("Initializing GitHubAPI", { repositoryUrl, branch });
+		this.logger.debug("Initializing GitHubAPI", { repositoryUrl, branch, refType, pinnedRef, endpoints });
 		
-		const [owner, repo] = this.parseRepositoryUrl(repositoryUrl);
+		const [webUrl, owner, repo] = this.parseRepositoryUrl(repositoryUrl);
 		this.owner = owner;
 		this.repo = repo;
+		// GitHub.com serves its API and raw files from their own hosts; GitHub
+		// Enterprise Server serves them from the instance under /api/v3 and /raw
+		const dotCom = webUrl === GITHUB_DOT_COM;
+		this.webUrl = webUrl;
+		this.baseUrl = trimTrailingSlash(endpoints.apiUrl) || (dotCom ? "https://api.github.com" : `${webUrl}/api/v3`);
+		this.rawUrl = trimTrailingSlash(endpoints.rawUrl) || (dotCom ? "https://raw.githubusercontent.com" : `${webUrl}/raw`);
 		this.token = token;
 		this.branch = branch;
+		this.refType = refType;
+		this.pinnedRef = pinnedRef;
+		this.rateLimiter = getRateLimiter(token, logger);
+		this.responseCache = responseCache;
 		
-		this.logger.info("GitHubAPI initialized", { owner, repo, branch });
+		this.logger.info("GitHubAPI initialized", { owner, repo, branch, refType, pinnedRef, apiUrl: this.baseUrl });
+	}
+
+	// Host name of the GitHub instance, e.g. "github.com"
+	get host(): string {
+		return this.webUrl.replace(/^https?:\/\//, "");
+	}
+
+	// "owner/repo"
+	get repositoryName(): string {
+		return `${this.owner}/${this.repo}`;
+	}
+
+	// API for another repository read with the same token, pinned to a
+	// commit (used for submodules)
+	forRepository(repository: string, commitSHA: string): GitHubAPI {
+		return new GitHubAPI(
+			`${this.webUrl}/${repository}`,
+			this.token,
+			"",
+			this.logger,
+			"commit",
+			commitSHA,
+			this.responseCache,
+			{ apiUrl: this.baseUrl, rawUrl: this.rawUrl }
+		);
+	}
+
+	// API budget left for the token, as of the last response
+	get rateLimit(): RateLimitStatus | null {
+		return this.rateLimiter.status;
+	}
+
+	get tracksBranch(): boolean {
+		return this.refType === "branch";
+	}
+
+	// Ref used for reads: the resolved commit once known, else the tracked name.
+	private get readRef(): string {
+		if (this.resolvedCommitSHA) return this.resolvedCommitSHA;
+		return this.refType === "branch" ? this.branch : this.pinnedRef;
 	}
 
-	private parseRepositoryUrl(url: string): [string, string] {
+	// Returns the web URL of the GitHub instance, the owner and the repository.
+	private parseRepositoryUrl(url: string): [string, string, string] {
 		this.logger.debug("Parsing repository URL", { url });
 
 		const trimmed = url.trim().replace(/\.git$/, "");
 
-		// Accept: "owner/repo", "https://github.com/owner/repo", "git@github.com:owner/repo"
+		// Accept: "owner/repo", "https://github.com/owner/repo", "git@github.com:owner/repo",
+		// and the same forms for a GitHub Enterprise Server host ("https://ghe.example.com/owner/repo").
 		// Reject deep links like "https://github.com/owner/repo/tree/main" — those would
 		// previously parse as owner="tree", repo="main" and produce confusing 404s.
-		let match = trimmed.match(/^(?:https?:\/\/)?(?:www\.)?github\.com\/([^/\s]+)\/([^/\s]+)$/);
-		if (!match) {
-			match = trimmed.match(/^git@github\.com:([^/\s]+)\/([^/\s]+)$/);
-		}
-		if (!match) {
-			match = trimmed.match(/^([^/\s]+)\/([^/\s]+)$/);
-		}
+		// Each pattern captures scheme, host, owner and repository
+		const match =
+			trimmed.match(/^(https?:\/\/)?(?:www\.)?(github\.com)\/([^/\s]+)\/([^/\s]+)$/) ??
+			trimmed.match(/^()git@(github\.com):([^/\s]+)\/([^/\s]+)$/) ??
+			trimmed.match(/^(https?:\/\/)(?:[^@/\s]+@)?([^/\s]+)\/([^/\s]+)\/([^/\s]+)$/) ??
+			trimmed.match(/^()git@([^:\s]+):([^/\s]+)\/([^/\s]+)$/) ??
+			trimmed.match(/^()()([^/\s]+)\/([^/\s]+)$/);
 		if (!match) {
 			this.logger.error("Invalid repository URL format", { url });
 			throw new Error(
-				"Invalid repository URL. Use 'owner/repo' or 'https://github.com/owner/repo'."
+				"Invalid repository URL. Use 'owner/repo', 'https://github.com/owner/repo' " +
+				"or 'https://<enterprise host>/owner/repo'."
 			);
 		}
 
-		const [, owner, repo] = match;
-		this.logger.debug("Repository URL parsed", { owner, repo });
-		return [owner, repo];
+		const [, scheme, host, owner, repo] = match;
+		// "owner/repo" is shorthand for GitHub.com
+		const webUrl = !host || host === "github.com" ? GITHUB_DOT_COM : `${scheme || "https://"}${host}`;
+		this.logger.debug("Repository URL parsed", { webUrl, owner, repo });
+		return [webUrl, owner, repo];
 	}
 
 	// Retry transient failures (dropped mobile connections, timeouts, 5xx)
-	// with exponential backoff. 4xx errors are not retried — auth, missing
-	// resource, and rate-limit responses won't resolve themselves.
+	// with exponential backoff. Other 4xx errors are not retried — auth and
+	// missing resources won't resolve themselves. Rate limit responses wait
+	// for the limit to lift, or throw RateLimitError when that is far off.
 	private async requestWithRetry(
 		params: RequestUrlParam,
 		attempts = 3
 	): Promise<RequestUrlResponse> {
+		// Only REST API requests count against the core limit
+		const countsAgainstLimit = params.url.startsWith(this.baseUrl);
 		let lastError: unknown;
+		let limitRetries = 0;
 		for (let i = 0; i < attempts; i++) {
 			try {
-				return await requestUrl(params);
+				if (countsAgainstLimit) {
+					await this.rateLimiter.acquire();
+				}
+				const response = await requestUrl({ ...params, throw: false });
+				if (countsAgainstLimit) {
+					this.rateLimiter.update(response.headers);
+				}
+				if (limitRetries < MAX_RATE_LIMIT_RETRIES && await this.rateLimiter.handleLimitResponse(response)) {
+					limitRetries++;
+					i--;
+					continue;
+				}
+				if (response.status >= 400) {
+					throw new GitHubRequestError(response);
+				}
+				return response;
 			} catch (error) {
+				if (error instanceof RateLimitError) {
+					throw error;
+				}
 				lastError = error;
 				const msg = (error instanceof Error ? error.message : String(error)) || "";
-				// HTTP 4xx responses include the status code in the thrown error;
-				// don't burn retries on permanent failures.
-				if (/\b4\d{2}\b/.test(msg)) {
+				// Don't burn retries on permanent failures (HTTP 4xx)
+				if (error instanceof GitHubRequestError && error.status < 500) {
 					throw error;
 				}
 				if (i < attempts - 1) {
@@ -87,22 +247,32 @@ export class GitHubAPI {
 		throw lastError;
 	}
 
+	// `cacheable` GET requests are sent with the ETag of the last response
+	// and answered from the response cache when GitHub replies 304. For
+	// `optional` resources a 404 is expected and left to the caller to log.
 	private async makeRequest<T>(
 		endpoint: string,
-		options: Partial<RequestUrlParam> = {}
+		options: Partial<RequestUrlParam> = {},
+		cacheable = false,
+		optional = false
 	): Promise<T> {
 		const url = `${this.baseUrl}${endpoint}`;
-		this.logger.debug("Making GitHub API request", { endpoint, url });
+		const cached = cacheable ? this.responseCache?.get(url) : undefined;
+		this.logger.debug("Making GitHub API request", { endpoint, url, conditional: !!cached });
 
 		try {
+			const headers: Record<string, string> = {
+				"Authorization": `Bearer ${this.token}`,
+				"Accept": "application/vnd.github.v3+json",
+				"User-Agent": "Obsidian-GitHub-Sync"
+			};
+			if (cached) {
+				headers["If-None-Match"] = cached.etag;
+			}
 			const response: RequestUrlResponse = await this.requestWithRetry({
 				url,
 				method: "GET",
-				headers: {
-					"Authorization": `Bearer ${this.token}`,
-					"Accept": "application/vnd.github.v3+json",
-					"User-Agent": "Obsidian-GitHub-Sync"
-				},
+				headers,
 				...options
 			});
 
@@ -111,7 +281,11 @@ export class GitHubAPI {
 				status: response.status
 			});
 
-			if (response.status !== 200) {
+			if (cached && response.status === 304) {
+				return cached.body as T;
+			}
+
+			if (response.status < 200 || response.status >= 300) {
 				this.logger.error("GitHub API error", {
 					endpoint,
 					status: response.status,
@@ -122,9 +296,15 @@ export class GitHubAPI {
 				);
 			}
 
+			const etag = cacheable ? getHeader(response.headers, "etag") : undefined;
+			if (etag) {
+				this.responseCache?.set(url, etag, response.json);
+			}
 			return response.json;
 		} catch (error) {
-			this.logger.error("GitHub API request failed", { endpoint, error });
+			if (!(optional && /\b404\b/.test((error as Error).message || String(error)))) {
+				this.logger.error("GitHub API request failed", { endpoint, error });
+			}
 			throw error;
 		}
 	}
@@ -132,7 +312,7 @@ export class GitHubAPI {
 	async testConnection(): Promise<boolean> {
 		try {
 			this.logger.info("Testing connection to GitHub repository");
-			await this.makeRequest(`/repos/${this.owner}/${this.repo}`);
+			await this.makeRequest(`/repos/${this.owner}/${this.repo}`, {}, true);
 			this.logger.info("Connection test successful");
 			return true;
 		} catch (error) {
@@ -142,33 +322,237 @@ export class GitHubAPI {
 		}
 	}
 
-	async getRepositoryTree(): Promise<{ files: GitHubFile[]; truncated: boolean }> {
+	// Resolves the tracked branch, tag or commit to a commit SHA and pins
+	// subsequent reads to it.
+	async resolveCommitSHA(): Promise<string> {
+		const label = this.refType === "branch" ? this.branch : this.pinnedRef;
 		try {
-			this.logger.info("Fetching repository tree");
-			const data = await this.makeRequest<GitHubTreeResponse>(
-				`/repos/${this.owner}/${this.repo}/git/trees/${encodeURIComponent(this.branch)}?recursive=1`
+			this.logger.debug("Resolving ref", { refType: this.refType, ref: label });
+			let commitSHA: string;
+			if (this.refType === "branch") {
+				const data = await this.makeRequest<GitHubRefResponse>(
+					`/repos/${this.owner}/${this.repo}/git/ref/heads/${this.encodeRefName(this.branch)}`,
+					{},
+					true
+				);
+				commitSHA = data.object.sha;
+			} else if (this.refType === "tag") {
+				const data = await this.makeRequest<GitHubRefResponse>(
+					`/repos/${this.owner}/${this.repo}/git/ref/tags/${this.encodeRefName(this.pinnedRef)}`,
+					{},
+					true
+				);
+				commitSHA = await this.peelTag(data.object.sha, data.object.type);
+			} else {
+				if (!/^[0-9a-f]{40}$/i.test(this.pinnedRef)) {
+					throw new Error("Commit pins need the full 40-character SHA");
+				}
+				const data = await this.makeRequest<GitHubCommitResponse>(
+					`/repos/${this.owner}/${this.repo}/git/commits/${this.pinnedRef}`,
+					{},
+					true
+				);
+				commitSHA = data.sha;
+			}
+			this.resolvedCommitSHA = commitSHA;
+			return commitSHA;
+		} catch (error) {
+			if (error instanceof RateLimitError) throw error;
+			this.logger.error("Failed to resolve ref", error);
+			throw new Error(`Failed to resolve ${this.refType} '${label}': ${error.message}`);
+		}
+	}
+
+	// Annotated tags point at a tag object (possibly a chain of them) rather
+	// than at the commit itself.
+	private async peelTag(sha: string, type: string): Promise<string> {
+		let objectSHA = sha;
+		let objectType = type;
+		while (objectType === "tag") {
+			const tag = await this.makeRequest<GitHubTagResponse>(
+				`/repos/${this.owner}/${this.repo}/git/tags/${objectSHA}`,
+				{},
+				true
 			);
+			objectSHA = tag.object.sha;
+			objectType = tag.object.type;
+		}
+		if (objectType !== "commit") {
+			throw new Error(`Tag points at a ${objectType}, not a commit`);
+		}
+		return objectSHA;
+	}
+
+	private encodeRefName(name: string): string {
+		return name.split("/").map(seg => encodeURIComponent(seg)).join("/");
+	}
 
-			if (data.truncated) {
-				this.logger.warn("Repository tree was truncated - some files may be missing");
+	// Returns the files changed between two commits, or null when the result
+	// can't be trusted as a complete diff (base no longer an ancestor after a
+	// force-push, base unknown, or too many files) and the caller should fall
+	// back to the full tree.
+	async compareCommits(base: string, head: string): Promise<GitHubCompareFile[] | null> {
+		try {
+			this.logger.info("Comparing commits", { base, head });
+			// per_page only paginates the commit list; the file list is always
+			// returned in full on the first page, so keep the payload small.
+			const data = await this.makeRequest<GitHubCompareResponse>(
+				`/repos/${this.owner}/${this.repo}/compare/${base}...${head}?per_page=1`
+			);
+
+			if (data.status !== "ahead" && data.status !== "identical") {
+				this.logger.warn("Previous sync commit is not an ancestor of head", { status: data.status });
+				return null;
 			}
 
-			// Filter to only include blobs (files), not trees (directories)
-			const files = data.tree.filter(item => item.type === "blob");
-			this.logger.info(`Repository tree fetched successfully`, {
-				totalItems: data.tree.length,
-				fileCount: files.length,
-				truncated: data.truncated
-			});
+			const files = data.files ?? [];
+			if (files.length >= COMPARE_FILE_LIMIT) {
+				this.logger.warn("Compare result hit the file limit", { fileCount: files.length });
+				return null;
+			}
 
-			return { files, truncated: data.truncated };
+			return files;
+		} catch (error) {
+			if (error instanceof RateLimitError) throw error;
+			this.logger.warn("Compare request failed", { error: (error as Error).message });
+			return null;
+		}
+	}
+
+	async getRepositoryTree(treeish: string = this.readRef): Promise<GitHubFile[]> {
+		try {
+			this.logger.info("Fetching repository tree", { treeish });
+			const files = await this.listTree(treeish, "");
+			this.logger.info(`Repository tree fetched successfully`, { fileCount: files.length });
+			return files;
 		} catch (error) {
+			if (error instanceof RateLimitError) throw error;
 			this.logger.error("Failed to fetch repository tree", error);
 			throw new Error(`Failed to fetch repository tree: ${error.message}`);
 		}
 	}
 
-	async getFileContent(path: string, sha?: string): Promise<ArrayBuffer> {
+	// Lists one directory at a commit without recursing. Paths are relative to
+	// the repository root.
+	async listDirectory(commitSHA: string, dir: string): Promise<GitHubFile[]> {
+		const encodedDir = dir.split("/").map(seg => encodeURIComponent(seg)).join("/");
+		const treeish = dir ? `${commitSHA}:${encodedDir}` : commitSHA;
+		const level = await this.makeRequest<GitHubTreeResponse>(
+			`/repos/${this.owner}/${this.repo}/git/trees/${treeish}`,
+			{},
+			true
+		);
+		return level.tree.map(item => ({ ...item, path: dir ? `${dir}/${item.path}` : item.path }));
+	}
+
+	// Lists every file and submodule under a tree, with paths prefixed by
+	// `prefix`. The recursive endpoint is tried first; when GitHub truncates
+	// it (more than 100,000 entries or 7 MB), this level is listed on its own
+	// and each subtree is walked separately until every listing is complete.
+	private async listTree(treeish: string, prefix: string): Promise<GitHubFile[]> {
+		const recursive = await this.makeRequest<GitHubTreeResponse>(
+			`/repos/${this.owner}/${this.repo}/git/trees/${encodeURIComponent(treeish)}?recursive=1`,
+			{},
+			true
+		);
+		if (!recursive.truncated) {
+			// Keep files and submodules, not trees (directories)
+			return recursive.tree
+				.filter(item => item.type === "blob" || item.type === "commit")
+				.map(item => ({ ...item, path: prefix + item.path }));
+		}
+
+		this.logger.warn(`Tree listing truncated at '${prefix || "/"}' - walking subtrees individually`);
+		const level = await this.makeRequest<GitHubTreeResponse>(
+			`/repos/${this.owner}/${this.repo}/git/trees/${encodeURIComponent(treeish)}`,
+			{},
+			true
+		);
+		if (level.truncated) {
+			// A single directory too large to list — nothing further to split.
+			throw new Error(`Directory listing for '${prefix || "/"}' exceeds the GitHub API limit`);
+		}
+
+		const files: GitHubFile[] = [];
+		for (const item of level.tree) {
+			if (item.type === "blob" || item.type === "commit") {
+				files.push({ ...item, path: prefix + item.path });
+			} else if (item.type === "tree") {
+				files.push(...await this.listTree(item.sha, `${prefix}${item.path}/`));
+			}
+		}
+		return files;
+	}
+
+	// Downloads the blob `sha` stored at `path`. Git LFS pointers are replaced
+	// by the object they point to unless it is larger than `maxLfsBytes` (0
+	// means no limit), in which case LfsObjectSkippedError is thrown.
+	async getFileContent(path: string, sha: string, maxLfsBytes = 0): Promise<DownloadedFile> {
+		const content = await this.getVerifiedBlob(path, sha);
+		const pointer = parseLfsPointer(content);
+		if (!pointer) {
+			return { content };
+		}
+
+		this.logger.info(`Git LFS pointer found: ${path}`, pointer);
+		if (maxLfsBytes > 0 && pointer.size > maxLfsBytes) {
+			throw new LfsObjectSkippedError(path, pointer.size);
+		}
+		return { content: await this.downloadLfsObject(path, pointer), lfs: pointer };
+	}
+
+	// Downloads a blob until its bytes hash to `sha`, so a truncated or badly
+	// decoded download is never handed out as the file's content.
+	private async getVerifiedBlob(path: string, sha: string): Promise<ArrayBuffer> {
+		let actualSha = "";
+		for (let attempt = 1; attempt <= MAX_DOWNLOAD_ATTEMPTS; attempt++) {
+			const content = await this.getBlobContent(path, sha);
+			actualSha = await computeGitBlobSha(content);
+			if (actualSha === sha) {
+				return content;
+			}
+			this.logger.warn(`Downloaded content does not match its blob SHA (attempt ${attempt}/${MAX_DOWNLOAD_ATTEMPTS}): ${path}`, {
+				expected: sha,
+				actual: actualSha,
+				size: content.byteLength
+			});
+		}
+		throw new ContentIntegrityError(path, sha, actualSha);
+	}
+
+	// Fetches a blob by SHA with the raw media type: no base64 to decode and
+	// none of the Contents API's 1 MB limit. Falls back to the path-based
+	// downloads only if that request fails.
+	private async getBlobContent(path: string, sha: string): Promise<ArrayBuffer> {
+		try {
+			const response = await this.requestWithRetry({
+				url: `${this.baseUrl}/repos/${this.owner}/${this.repo}/git/blobs/${sha}`,
+				method: "GET",
+				headers: {
+					"Authorization": `Bearer ${this.token}`,
+					"Accept": "application/vnd.github.raw",
+					"User-Agent": "Obsidian-GitHub-Sync"
+				}
+			});
+			this.logger.debug(`File content fetched by blob SHA: ${path}`, { sha, size: response.arrayBuffer.byteLength });
+			return response.arrayBuffer;
+		} catch (error) {
+			if (error instanceof RateLimitError) throw error;
+			// A bad token or a missing object fails the same way by path. Only a
+			// blob too large for this API, a server error or a dropped connection
+			// is worth the longer route.
+			if (error instanceof GitHubRequestError && error.status < 500 &&
+				!(error.status === 403 && /too.?large/i.test(error.message))) {
+				throw error;
+			}
+			this.logger.warn(`Blob download failed, trying the file path: ${path}`, { error: (error as Error).message });
+			return this.getContentByPath(path, sha);
+		}
+	}
+
+	// Contents API, then the raw file host for files over 1 MB, then
+	// the base64 blob API.
+	private async getContentByPath(path: string, sha?: string): Promise<ArrayBuffer> {
 		try {
 			this.logger.debug(`Fetching file content: ${path}`);
 			
@@ -182,7 +566,7 @@ export class GitHubAPI {
 				// break nested paths.
 				const encodedPath = path.split("/").map(seg => encodeURIComponent(seg)).join("/");
 				const data = await this.makeRequest<GitHubContentResponse>(
-					`/repos/${this.owner}/${this.repo}/contents/${encodedPath}?ref=${encodeURIComponent(this.branch)}`
+					`/repos/${this.owner}/${this.repo}/contents/${encodedPath}?ref=${encodeURIComponent(this.readRef)}`
 				);
 
 				// Check if content is empty or missing - this happens for files > 1MB
@@ -240,7 +624,7 @@ export class GitHubAPI {
 			if (needsLargeFileHandling) {
 				this.logger.info(`Using large file download method for: ${path}`);
 				
-				// Fall back to raw.githubusercontent.com for large files (up to 100MB)
+				// Fall back to the raw file host for large files (up to 100MB)
 				try {
 					const rawResult = await this.downloadRawFile(path);
 					
@@ -288,15 +672,192 @@ export class GitHubAPI {
 			// This shouldn't be reached, but just in case
 			throw contentsApiError || new Error(`Failed to fetch file content: ${path}`);
 		} catch (error) {
+			if (error instanceof RateLimitError) throw error;
 			this.logger.error(`Failed to fetch file: ${path}`, error);
 			throw new Error(`Failed to fetch file ${path}: ${(error as Error).message}`);
 		}
 	}
 
+	// Asks the LFS batch API where the object is stored, downloads it with the
+	// headers it hands back, and checks the bytes against the pointer.
+	private async downloadLfsObject(path: string, pointer: LfsPointer): Promise<ArrayBuffer> {
+		const batchUrl = `${this.webUrl}/${this.owner}/${this.repo}.git/info/lfs/objects/batch`;
+		const response = await this.requestWithRetry({
+			url: batchUrl,
+			method: "POST",
+			headers: {
+				// LFS takes the token as the password of HTTP basic auth
+				"Authorization": `Basic ${btoa(`x-access-token:${this.token}`)}`,
+				"Accept": "application/vnd.git-lfs+json",
+				"User-Agent": "Obsidian-GitHub-Sync"
+			},
+			contentType: "application/vnd.git-lfs+json",
+			body: JSON.stringify({
+				operation: "download",
+				transfers: ["basic"],
+				objects: [{ oid: pointer.oid, size: pointer.size }]
+			})
+		});
+
+		const object = (response.json as LfsBatchResponse).objects?.[0];
+		if (object?.error) {
+			throw new Error(`Git LFS object for ${path} unavailable: ${object.error.code} - ${object.error.message}`);
+		}
+		const download = object?.actions?.download;
+		if (!download) {
+			throw new Error(`Git LFS returned no download link for ${path}`);
+		}
+
+		const objectResponse = await this.requestWithRetry({
+			url: download.href,
+			method: "GET",
+			headers: download.header ?? {}
+		});
+		const content = objectResponse.arrayBuffer;
+		if (content.byteLength !== pointer.size) {
+			throw new Error(`Git LFS object for ${path} is ${content.byteLength} bytes, expected ${pointer.size}`);
+		}
+		const oid = await computeSha256(content);
+		if (oid !== pointer.oid) {
+			throw new Error(`Git LFS object for ${path} has SHA-256 ${oid}, expected ${pointer.oid}`);
+		}
+
+		this.logger.info(`Git LFS object downloaded: ${path}`, { size: content.byteLength });
+		return content;
+	}
+
+	// Downloads the repository at a commit as one zip archive. Costs a single
+	// API request however many files it holds.
+	async downloadArchive(commitSHA: string): Promise<ArrayBuffer> {
+		this.logger.info("Downloading repository archive", { commitSHA });
+		const response = await this.requestWithRetry({
+			url: `${this.baseUrl}/repos/${this.owner}/${this.repo}/zipball/${commitSHA}`,
+			method: "GET",
+			headers: {
+				"Authorization": `Bearer ${this.token}`,
+				"User-Agent": "Obsidian-GitHub-Sync"
+			}
+		});
+		const archive = response.arrayBuffer;
+		this.logger.info("Repository archive downloaded", {
+			sizeMB: (archive.byteLength / (1024 * 1024)).toFixed(2)
+		});
+		return archive;
+	}
+
+	// Checks that the host answers and reports which GitHub it runs:
+	// GitHub Enterprise Server sends its version, GitHub.com does not.
+	async getServerInfo(): Promise<GitHubServerInfo> {
+		const response = await this.requestWithRetry({
+			url: `${this.baseUrl}/meta`,
+			method: "GET",
+			headers: {
+				"Authorization": `Bearer ${this.token}`,
+				"Accept": "application/vnd.github.v3+json",
+				"User-Agent": "Obsidian-GitHub-Sync"
+			}
+		});
+		const version = getHeader(response.headers, "x-github-enterprise-version") ??
+			(response.json?.installed_version as string | undefined) ??
+			null;
+		this.logger.info("GitHub server reached", { apiUrl: this.baseUrl, version });
+		return { host: this.host, version };
+	}
+
+	// Reads a small blob as text, such as the target path stored in a symlink.
+	async getBlobText(sha: string): Promise<string> {
+		const blobData = await this.makeRequest<GitHubBlobResponse>(
+			`/repos/${this.owner}/${this.repo}/git/blobs/${sha}`
+		);
+		const bytes = this.decodeBase64Content(blobData.content || "", blobData.size, sha);
+		return new TextDecoder().decode(bytes);
+	}
+
+	// Write path for pushing: blobs → tree → commit → ref, all through the
+	// Git Data API so no working copy is needed.
+	async createBlob(content: ArrayBuffer): Promise<string> {
+		const data = await this.makeRequest<{ sha: string }>(
+			`/repos/${this.owner}/${this.repo}/git/blobs`,
+			{
+				method: "POST",
+				contentType: "application/json",
+				body: JSON.stringify({ content: this.encodeBase64Content(content), encoding: "base64" })
+			}
+		);
+		return data.sha;
+	}
+
+	async getCommitTreeSHA(commitSHA: string): Promise<string> {
+		const data = await this.makeRequest<GitHubCommitResponse>(
+			`/repos/${this.owner}/${this.repo}/git/commits/${commitSHA}`
+		);
+		return data.tree.sha;
+	}
+
+	async createTree(baseTreeSHA: string, entries: GitHubTreeEntry[]): Promise<string> {
+		const data = await this.makeRequest<{ sha: string }>(
+			`/repos/${this.owner}/${this.repo}/git/trees`,
+			{
+				method: "POST",
+				contentType: "application/json",
+				body: JSON.stringify({ base_tree: baseTreeSHA, tree: entries })
+			}
+		);
+		return data.sha;
+	}
+
+	async createCommit(message: string, treeSHA: string, parentSHA: string): Promise<string> {
+		const data = await this.makeRequest<GitHubCommitResponse>(
+			`/repos/${this.owner}/${this.repo}/git/commits`,
+			{
+				method: "POST",
+				contentType: "application/json",
+				body: JSON.stringify({ message, tree: treeSHA, parents: [parentSHA] })
+			}
+		);
+		return data.sha;
+	}
+
+	// Moves the branch to `commitSHA`. force=false makes GitHub reject the
+	// update (422) unless it is a fast-forward, so a concurrent push to the
+	// branch can never be overwritten.
+	async fastForwardBranch(commitSHA: string): Promise<void> {
+		await this.makeRequest<GitHubRefResponse>(
+			`/repos/${this.owner}/${this.repo}/git/refs/heads/${this.encodeRefName(this.branch)}`,
+			{
+				method: "PATCH",
+				contentType: "application/json",
+				body: JSON.stringify({ sha: commitSHA, force: false })
+			}
+		);
+	}
+
+	// Reads a small text file at a specific commit, returning null when the
+	// file doesn't exist there.
+	async getOptionalTextFile(path: string, ref: string): Promise<string | null> {
+		const encodedPath = path.split("/").map(seg => encodeURIComponent(seg)).join("/");
+		try {
+			const data = await this.makeRequest<GitHubContentResponse>(
+				`/repos/${this.owner}/${this.repo}/contents/${encodedPath}?ref=${encodeURIComponent(ref)}`,
+				{},
+				true,
+				true
+			);
+			const bytes = this.decodeBase64Content(data.content || "", data.size, path);
+			return new TextDecoder().decode(bytes);
+		} catch (error) {
+			if (/\b404\b/.test((error as Error).message || String(error))) {
+				this.logger.debug(`Optional file not present: ${path}`, { ref });
+				return null;
+			}
+			throw error;
+		}
+	}
+
 	private async downloadRawFile(path: string): Promise<ArrayBuffer> {
 		// Properly encode path components for URL (handle Chinese characters and spaces)
 		const encodedPath = path.split('/').map(segment => encodeURIComponent(segment)).join('/');
-		const rawUrl = `https://raw.githubusercontent.com/${this.owner}/${this.repo}/${encodeURIComponent(this.branch)}/${encodedPath}`;
+		const rawUrl = `${this.rawUrl}/${this.owner}/${this.repo}/${encodeURIComponent(this.readRef)}/${encodedPath}`;
 		this.logger.debug(`Downloading from raw URL: ${rawUrl}`);
 		
 		try {
@@ -365,7 +926,19 @@ export class GitHubAPI {
 		return bytes.buffer;
 	}
 
-	async getRateLimitStatus(): Promise<{ limit: number; remaining: number; reset: number }> {
+	private encodeBase64Content(content: ArrayBuffer): string {
+		// btoa needs a binary string; build it in chunks to stay clear of the
+		// argument limit of String.fromCharCode.apply on large files.
+		const bytes = new Uint8Array(content);
+		const CHUNK = 0x8000;
+		let binary = "";
+		for (let i = 0; i < bytes.length; i += CHUNK) {
+			binary += String.fromCharCode.apply(null, Array.from(bytes.subarray(i, i + CHUNK)));
+		}
+		return btoa(binary);
+	}
+
+	async getRateLimitStatus(): Promise<RateLimitStatus> {
 		try {
 			this.logger.debug("Fetching rate limit status");
 			const data = await this.makeRequest<{
@@ -390,4 +963,27 @@ export class GitHubAPI {
 			return { limit: 0, remaining: 0, reset: 0 };
 		}
 	}
-}
\ No newline at end of file
+}
+
+// GitHub's JSON `message`, or the start of a non-JSON body
+function describeErrorResponse(response: RequestUrlResponse): string {
+	let text: string;
+	try {
+		text = response.text;
+	} catch {
+		return "";
+	}
+	try {
+		const message = JSON.parse(text)?.message;
+		if (typeof message === "string") {
+			return message;
+		}
+	} catch {
+		// Not JSON, such as an HTML error page
+	}
+	return text.trim().substring(0, 200);
+}
+
+function trimTrailingSlash(url?: string): string {
+	return (url ?? "").trim().replace(/\/+$/, "");
+}
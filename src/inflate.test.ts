@@ -0,0 +1,78 @@
+import { describe, it } from "node:test";
+import * as assert from "node:assert";
+import { constants, deflateRawSync } from "node:zlib";
+import { inflateRaw } from "./inflate";
+
+// Reference streams come from zlib, which is what GitHub's zip archives use
+function roundTrip(input: Uint8Array, options: object = {}): Uint8Array {
+	const compressed = deflateRawSync(input, options);
+	return inflateRaw(new Uint8Array(compressed), input.length);
+}
+
+function pseudoRandomBytes(length: number, seed: number): Uint8Array {
+	const bytes = new Uint8Array(length);
+	let state = seed;
+	for (let i = 0; i < length; i++) {
+		state = (state * 1103515245 + 12345) >>> 0;
+		bytes[i] = state >>> 24;
+	}
+	return bytes;
+}
+
+const markdown = new TextEncoder().encode(
+	Array.from({ length: 400 }, (_, i) => `- [ ] Task ${i}: review note ${i % 17} in folder ${i % 5}\n`).join("")
+);
+
+describe("inflateRaw", () => {
+	it("inflates stored blocks", () => {
+		assert.deepStrictEqual(roundTrip(markdown, { level: 0 }), markdown);
+	});
+
+	it("inflates blocks with fixed Huffman codes", () => {
+		assert.deepStrictEqual(roundTrip(markdown, { strategy: constants.Z_FIXED }), markdown);
+	});
+
+	it("inflates blocks with dynamic Huffman codes", () => {
+		assert.deepStrictEqual(roundTrip(markdown), markdown);
+	});
+
+	it("inflates matches that overlap their own output", () => {
+		const repeated = new Uint8Array(5000).fill(0x61);
+		assert.deepStrictEqual(roundTrip(repeated), repeated);
+	});
+
+	it("inflates streams spanning several blocks", () => {
+		// Incompressible data ends up in stored blocks of at most 64 KB
+		const binary = pseudoRandomBytes(200 * 1024, 7);
+		assert.deepStrictEqual(roundTrip(binary), binary);
+		assert.deepStrictEqual(roundTrip(binary, { level: 0 }), binary);
+	});
+
+	it("inflates an empty stream", () => {
+		assert.strictEqual(roundTrip(new Uint8Array(0)).length, 0);
+	});
+
+	it("rejects output of a different size than expected", () => {
+		const compressed = new Uint8Array(deflateRawSync(markdown));
+		assert.throws(() => inflateRaw(compressed, markdown.length - 1), /larger than expected/);
+		assert.throws(() => inflateRaw(compressed, markdown.length + 1), /expected/);
+	});
+
+	it("rejects truncated data", () => {
+		const compressed = new Uint8Array(deflateRawSync(markdown));
+		assert.throws(
+			() => inflateRaw(compressed.subarray(0, compressed.length >> 1), markdown.length),
+			/DEFLATE/
+		);
+	});
+
+	it("rejects the reserved block type", () => {
+		// Final block, type 3
+		assert.throws(() => inflateRaw(new Uint8Array([0x07]), 0), /Invalid DEFLATE block type/);
+	});
+
+	it("rejects a corrupt stored block length", () => {
+		// Final stored block whose length and its complement disagree
+		assert.throws(() => inflateRaw(new Uint8Array([0x01, 0x05, 0x00, 0x00, 0x00]), 5), /Corrupt stored DEFLATE block/);
+	});
+});
@@ -0,0 +1,215 @@
+// Decoder for raw DEFLATE streams (RFC 1951), the compression used by zip
+// archives. Plain JavaScript so it runs the same on desktop and mobile.
+
+const MAX_BITS = 15;
+
+// Base lengths and extra bits of length codes 257..285
+const LENGTH_BASE = [3, 4, 5, 6, 7, 8, 9, 10, 11, 13, 15, 17, 19, 23, 27, 31, 35, 43, 51, 59, 67, 83, 99, 115, 131, 163, 195, 227, 258];
+const LENGTH_EXTRA = [0, 0, 0, 0, 0, 0, 0, 0, 1, 1, 1, 1, 2, 2, 2, 2, 3, 3, 3, 3, 4, 4, 4, 4, 5, 5, 5, 5, 0];
+// Base distances and extra bits of distance codes 0..29
+const DIST_BASE = [1, 2, 3, 4, 5, 7, 9, 13, 17, 25, 33, 49, 65, 97, 129, 193, 257, 385, 513, 769, 1025, 1537, 2049, 3073, 4097, 6145, 8193, 12289, 16385, 24577];
+const DIST_EXTRA = [0, 0, 0, 0, 1, 1, 2, 2, 3, 3, 4, 4, 5, 5, 6, 6, 7, 7, 8, 8, 9, 9, 10, 10, 11, 11, 12, 12, 13, 13];
+// Order in which code length code lengths are stored in a dynamic block
+const CODE_LENGTH_ORDER = [16, 17, 18, 0, 8, 7, 9, 6, 10, 5, 11, 4, 12, 3, 13, 2, 14, 1, 15];
+
+// Canonical Huffman code: how many codes have each bit length, and the
+// symbols ordered by code
+interface Huffman {
+	counts: Uint16Array;
+	symbols: Uint16Array;
+}
+
+let fixedTrees: { lengths: Huffman; distances: Huffman } | null = null;
+
+// Inflates `data` into a buffer of exactly `size` bytes
+export function inflateRaw(data: Uint8Array, size: number): Uint8Array {
+	const reader = new BitReader(data);
+	const output = new Uint8Array(size);
+	let written = 0;
+
+	let last = false;
+	while (!last) {
+		last = reader.bits(1) === 1;
+		const type = reader.bits(2);
+		if (type === 0) {
+			written = copyStored(reader, output, written);
+			continue;
+		}
+
+		let trees: { lengths: Huffman; distances: Huffman };
+		if (type === 1) {
+			trees = getFixedTrees();
+		} else if (type === 2) {
+			trees = readDynamicTrees(reader);
+		} else {
+			throw new Error("Invalid DEFLATE block type");
+		}
+
+		for (;;) {
+			const symbol = decodeSymbol(reader, trees.lengths);
+			if (symbol < 256) {
+				if (written >= size) throw new Error("DEFLATE data is larger than expected");
+				output[written++] = symbol;
+			} else if (symbol === 256) {
+				break;
+			} else {
+				const lengthCode = symbol - 257;
+				if (lengthCode >= LENGTH_BASE.length) throw new Error("Invalid DEFLATE length code");
+				const length = LENGTH_BASE[lengthCode] + reader.bits(LENGTH_EXTRA[lengthCode]);
+				const distCode = decodeSymbol(reader, trees.distances);
+				if (distCode >= DIST_BASE.length) throw new Error("Invalid DEFLATE distance code");
+				const distance = DIST_BASE[distCode] + reader.bits(DIST_EXTRA[distCode]);
+				if (distance > written) throw new Error("DEFLATE distance reaches before the start of the data");
+				if (written + length > size) throw new Error("DEFLATE data is larger than expected");
+				// Byte by byte: a match may overlap the bytes it produces
+				for (let i = 0; i < length; i++, written++) {
+					output[written] = output[written - distance];
+				}
+			}
+		}
+	}
+
+	if (written !== size) {
+		throw new Error(`DEFLATE data is ${written} bytes, expected ${size}`);
+	}
+	return output;
+}
+
+class BitReader {
+	private data: Uint8Array;
+	private position = 0;
+	private buffer = 0;
+	private count = 0;
+
+	constructor(data: Uint8Array) {
+		this.data = data;
+	}
+
+	// Next `n` bits, least significant first
+	bits(n: number): number {
+		while (this.count < n) {
+			if (this.position >= this.data.length) throw new Error("Unexpected end of DEFLATE data");
+			this.buffer |= this.data[this.position++] << this.count;
+			this.count += 8;
+		}
+		const value = this.buffer & ((1 << n) - 1);
+		this.buffer >>>= n;
+		this.count -= n;
+		return value;
+	}
+
+	// Drops the rest of the current byte and reads whole bytes from there
+	readAlignedBytes(length: number): Uint8Array {
+		this.buffer = 0;
+		this.count = 0;
+		if (this.position + length > this.data.length) throw new Error("Unexpected end of DEFLATE data");
+		const bytes = this.data.subarray(this.position, this.position + length);
+		this.position += length;
+		return bytes;
+	}
+}
+
+function copyStored(reader: BitReader, output: Uint8Array, written: number): number {
+	const header = reader.readAlignedBytes(4);
+	const length = header[0] | (header[1] << 8);
+	const check = header[2] | (header[3] << 8);
+	if (length !== (~check & 0xffff)) throw new Error("Corrupt stored DEFLATE block");
+	if (written + length > output.length) throw new Error("DEFLATE data is larger than expected");
+	output.set(reader.readAlignedBytes(length), written);
+	return written + length;
+}
+
+function buildHuffman(lengths: ArrayLike<number>, offset: number, count: number): Huffman {
+	const counts = new Uint16Array(MAX_BITS + 1);
+	const symbols = new Uint16Array(count);
+	for (let i = 0; i < count; i++) {
+		counts[lengths[offset + i]]++;
+	}
+	counts[0] = 0;
+
+	const offsets = new Uint16Array(MAX_BITS + 1);
+	for (let bits = 1; bits < MAX_BITS; bits++) {
+		offsets[bits + 1] = offsets[bits] + counts[bits];
+	}
+	for (let i = 0; i < count; i++) {
+		const length = lengths[offset + i];
+		if (length !== 0) {
+			symbols[offsets[length]++] = i;
+		}
+	}
+	return { counts, symbols };
+}
+
+function decodeSymbol(reader: BitReader, huffman: Huffman): number {
+	let code = 0;
+	let first = 0;
+	let index = 0;
+	for (let bits = 1; bits <= MAX_BITS; bits++) {
+		code |= reader.bits(1);
+		const count = huffman.counts[bits];
+		if (code - count < first) {
+			return huffman.symbols[index + (code - first)];
+		}
+		index += count;
+		first = (first + count) << 1;
+		code <<= 1;
+	}
+	throw new Error("Invalid DEFLATE Huffman code");
+}
+
+function getFixedTrees(): { lengths: Huffman; distances: Huffman } {
+	if (!fixedTrees) {
+		const lengths = new Uint8Array(288);
+		lengths.fill(8, 0, 144);
+		lengths.fill(9, 144, 256);
+		lengths.fill(7, 256, 280);
+		lengths.fill(8, 280, 288);
+		const distances = new Uint8Array(30);
+		distances.fill(5);
+		fixedTrees = {
+			lengths: buildHuffman(lengths, 0, 288),
+			distances: buildHuffman(distances, 0, 30)
+		};
+	}
+	return fixedTrees;
+}
+
+function readDynamicTrees(reader: BitReader): { lengths: Huffman; distances: Huffman } {
+	const literalCount = reader.bits(5) + 257;
+	const distanceCount = reader.bits(5) + 1;
+	const codeLengthCount = reader.bits(4) + 4;
+
+	const codeLengthLengths = new Uint8Array(19);
+	for (let i = 0; i < codeLengthCount; i++) {
+		codeLengthLengths[CODE_LENGTH_ORDER[i]] = reader.bits(3);
+	}
+	const codeLengths = buildHuffman(codeLengthLengths, 0, 19);
+
+	const lengths = new Uint8Array(literalCount + distanceCount);
+	for (let i = 0; i < lengths.length;) {
+		const symbol = decodeSymbol(reader, codeLengths);
+		if (symbol < 16) {
+			lengths[i++] = symbol;
+			continue;
+		}
+		let repeat: number;
+		let value = 0;
+		if (symbol === 16) {
+			if (i === 0) throw new Error("DEFLATE length repeat with no previous length");
+			value = lengths[i - 1];
+			repeat = 3 + reader.bits(2);
+		} else if (symbol === 17) {
+			repeat = 3 + reader.bits(3);
+		} else {
+			repeat = 11 + reader.bits(7);
+		}
+		if (i + repeat > lengths.length) throw new Error("Too many DEFLATE code lengths");
+		lengths.fill(value, i, i + repeat);
+		i += repeat;
+	}
+
+	return {
+		lengths: buildHuffman(lengths, 0, literalCount),
+		distances: buildHuffman(lengths, literalCount, distanceCount)
+	};
+}
@@ -0,0 +1,32 @@
+import { LfsPointer } from "./types";
+
+// The LFS spec caps pointer files well below this; anything larger is content.
+export const MAX_POINTER_BYTES = 1024;
+
+// Recognises the small text file Git LFS commits in place of the real object:
+//
+//   version https://git-lfs.github.com/spec/v1
+//   oid sha256:<64 hex digits>
+//   size <bytes>
+export function parseLfsPointer(content: ArrayBuffer): LfsPointer | null {
+	if (content.byteLength > MAX_POINTER_BYTES) {
+		return null;
+	}
+
+	let text: string;
+	try {
+		text = new TextDecoder("utf-8", { fatal: true }).decode(content);
+	} catch {
+		return null;
+	}
+	if (!text.startsWith("version https://git-lfs.github.com/spec/")) {
+		return null;
+	}
+
+	const oid = text.match(/^oid sha256:([0-9a-f]{64})$/m);
+	const size = text.match(/^size (\d+)$/m);
+	if (!oid || !size) {
+		return null;
+	}
+	return { oid: oid[1], size: parseInt(size[1], 10) };
+}
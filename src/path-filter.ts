@@ -0,0 +1,97 @@
+// Name of the optional ignore file read from the repository root. Uses the
+// same pattern syntax as the exclude setting.
+export const IGNORE_FILE = ".githubpullignore";
+
+interface CompiledRule {
+	regex: RegExp;
+	negated: boolean;
+}
+
+// Decides which repository paths take part in a sync. Patterns follow
+// .gitignore conventions:
+//   *.psd         any .psd file at any depth
+//   archive/**    everything under the top-level archive folder
+//   assets/raw/   a folder (and its contents) — trailing slash
+//   /README.md    anchored to the repository root
+//   !keep.psd     re-include a path excluded by an earlier rule
+// An empty include list means "everything"; exclude rules are applied in
+// order and the last matching rule wins.
+export class PathFilter {
+	private includeRules: CompiledRule[];
+	private excludeRules: CompiledRule[];
+
+	constructor(includePatterns: string[], excludePatterns: string[]) {
+		this.includeRules = PathFilter.compileAll(includePatterns);
+		this.excludeRules = PathFilter.compileAll(excludePatterns);
+	}
+
+	// Splits settings text or an ignore file into patterns, dropping blank
+	// lines and # comments.
+	static parsePatterns(text: string): string[] {
+		return text
+			.split(/\r?\n/)
+			.map(line => line.trim())
+			.filter(line => line.length > 0 && !line.startsWith("#"));
+	}
+
+	matches(path: string): boolean {
+		if (this.includeRules.length > 0 && !this.includeRules.some(rule => rule.regex.test(path))) {
+			return false;
+		}
+
+		let excluded = false;
+		for (const rule of this.excludeRules) {
+			if (rule.regex.test(path)) {
+				excluded = !rule.negated;
+			}
+		}
+		return !excluded;
+	}
+
+	private static compileAll(patterns: string[]): CompiledRule[] {
+		return patterns
+			.map(pattern => pattern.trim())
+			.filter(pattern => pattern.length > 0 && !pattern.startsWith("#"))
+			.map(pattern => PathFilter.compile(pattern));
+	}
+
+	private static compile(pattern: string): CompiledRule {
+		let body = pattern;
+		const negated = body.startsWith("!");
+		if (negated) body = body.substring(1);
+
+		const dirOnly = body.endsWith("/");
+		if (dirOnly) body = body.replace(/\/+$/, "");
+
+		// A pattern containing a slash is relative to the repository root;
+		// otherwise it matches a file or folder name at any depth.
+		const anchored = body.includes("/");
+		body = body.replace(/^\/+/, "");
+
+		let source = "";
+		for (let i = 0; i < body.length; i++) {
+			const ch = body[i];
+			if (ch === "*" && body[i + 1] === "*") {
+				if (body[i + 2] === "/") {
+					source += "(?:.*/)?";
+					i += 2;
+				} else {
+					source += ".*";
+					i += 1;
+				}
+			} else if (ch === "*") {
+				source += "[^/]*";
+			} else if (ch === "?") {
+				source += "[^/]";
+			} else {
+				source += ch.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+			}
+		}
+
+		// Matching a folder also matches everything inside it. Patterns with a
+		// trailing slash only ever name folders, so something must follow.
+		const prefix = anchored ? "^" : "^(?:.*/)?";
+		const suffix = dirOnly ? "/.*$" : "(?:/.*)?$";
+		return { regex: new RegExp(prefix + source + suffix), negated };
+	}
+}
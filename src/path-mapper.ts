@@ -0,0 +1,53 @@
+// Translates between repository paths and vault paths when only a
+// subfolder of the repository is synced, or the repository is placed in a
+// subfolder of the vault. With both settings empty, paths map one-to-one.
+//
+//   remotePrefix "vault", localFolder "Team":
+//     vault/notes/a.md  <->  Team/notes/a.md
+//     docs/readme.md    ->   (out of scope)
+export class PathMapper {
+	private remotePrefix: string;
+	private localFolder: string;
+
+	constructor(remotePrefix: string, localFolder: string) {
+		this.remotePrefix = PathMapper.trimSlashes(remotePrefix);
+		this.localFolder = PathMapper.trimSlashes(localFolder);
+	}
+
+	private static trimSlashes(path: string): string {
+		return path.trim().replace(/^\/+|\/+$/g, "");
+	}
+
+	get signature(): string {
+		return `${this.remotePrefix}:${this.localFolder}`;
+	}
+
+	// True when only a subfolder of the repository is synced.
+	get isPartial(): boolean {
+		return !!this.remotePrefix;
+	}
+
+	// True when a repository path lies inside the synced subfolder.
+	isInScope(remotePath: string): boolean {
+		return !this.remotePrefix || remotePath.startsWith(this.remotePrefix + "/");
+	}
+
+	toLocal(remotePath: string): string {
+		const relative = this.remotePrefix
+			? remotePath.substring(this.remotePrefix.length + 1)
+			: remotePath;
+		return this.localFolder ? `${this.localFolder}/${relative}` : relative;
+	}
+
+	// Returns null for vault paths outside the target folder.
+	toRemote(localPath: string): string | null {
+		let relative = localPath;
+		if (this.localFolder) {
+			if (!localPath.startsWith(this.localFolder + "/")) {
+				return null;
+			}
+			relative = localPath.substring(this.localFolder.length + 1);
+		}
+		return this.remotePrefix ? `${this.remotePrefix}/${relative}` : relative;
+	}
+}
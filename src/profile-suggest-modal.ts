@@ -0,0 +1,28 @@
+import { App, FuzzySuggestModal } from "obsidian";
+import { SyncProfile } from "./types";
+
+// Command-palette style picker used by the per-profile commands.
+export class ProfileSuggestModal extends FuzzySuggestModal<SyncProfile> {
+	private profiles: SyncProfile[];
+	private onChoose: (profile: SyncProfile) => void;
+
+	constructor(app: App, profiles: SyncProfile[], onChoose: (profile: SyncProfile) => void) {
+		super(app);
+		this.profiles = profiles;
+		this.onChoose = onChoose;
+		this.setPlaceholder("Choose a sync profile");
+	}
+
+	getItems(): SyncProfile[] {
+		return this.profiles;
+	}
+
+	getItemText(profile: SyncProfile): string {
+		const folder = profile.localTargetFolder ? ` → ${profile.localTargetFolder}/` : "";
+		return `${profile.name} (${profile.repositoryUrl || "not configured"})${folder}`;
+	}
+
+	onChooseItem(profile: SyncProfile): void {
+		this.onChoose(profile);
+	}
+}
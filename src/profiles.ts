@@ -0,0 +1,70 @@
+import { DEFAULT_PROFILE, DEFAULT_SETTINGS, GitHubSyncSettings, SyncProfile } from "./types";
+
+// Settings written before profiles existed kept one repository at the top
+// level. Those fields are folded into the default profile on load.
+type LegacySettings = Partial<Omit<SyncProfile, "id" | "name">>;
+
+export function loadSettingsData(data: unknown): GitHubSyncSettings {
+	const stored = (data ?? {}) as Partial<GitHubSyncSettings> & LegacySettings;
+	const settings: GitHubSyncSettings = {
+		profiles: [],
+		autoSyncOnLaunch: stored.autoSyncOnLaunch ?? DEFAULT_SETTINGS.autoSyncOnLaunch,
+		syncIntervalMinutes: stored.syncIntervalMinutes ?? DEFAULT_SETTINGS.syncIntervalMinutes,
+		syncOnFocus: stored.syncOnFocus ?? DEFAULT_SETTINGS.syncOnFocus,
+		minMinutesBetweenSyncs: stored.minMinutesBetweenSyncs ?? DEFAULT_SETTINGS.minMinutesBetweenSyncs,
+		conflictResolution: stored.conflictResolution ?? DEFAULT_SETTINGS.conflictResolution,
+		snapshotsToKeep: stored.snapshotsToKeep ?? DEFAULT_SETTINGS.snapshotsToKeep,
+		maxSnapshotMB: stored.maxSnapshotMB ?? DEFAULT_SETTINGS.maxSnapshotMB,
+		maxLfsFileMB: stored.maxLfsFileMB ?? DEFAULT_SETTINGS.maxLfsFileMB,
+		symlinkHandling: stored.symlinkHandling ?? DEFAULT_SETTINGS.symlinkHandling,
+		syncSubmodules: stored.syncSubmodules ?? DEFAULT_SETTINGS.syncSubmodules,
+		blobCacheMB: stored.blobCacheMB ?? DEFAULT_SETTINGS.blobCacheMB
+	};
+
+	if (Array.isArray(stored.profiles) && stored.profiles.length > 0) {
+		settings.profiles = stored.profiles.map(profile => ({ ...DEFAULT_PROFILE, ...profile }));
+	} else {
+		settings.profiles = [{
+			...DEFAULT_PROFILE,
+			repositoryUrl: stored.repositoryUrl ?? DEFAULT_PROFILE.repositoryUrl,
+			personalAccessToken: stored.personalAccessToken ?? DEFAULT_PROFILE.personalAccessToken,
+			branch: stored.branch ?? DEFAULT_PROFILE.branch,
+			includePatterns: stored.includePatterns ?? DEFAULT_PROFILE.includePatterns,
+			excludePatterns: stored.excludePatterns ?? DEFAULT_PROFILE.excludePatterns,
+			remotePathPrefix: stored.remotePathPrefix ?? DEFAULT_PROFILE.remotePathPrefix,
+			localTargetFolder: stored.localTargetFolder ?? DEFAULT_PROFILE.localTargetFolder,
+			lastSyncTime: stored.lastSyncTime ?? DEFAULT_PROFILE.lastSyncTime
+		}];
+	}
+
+	return settings;
+}
+
+export function createProfile(existing: SyncProfile[]): SyncProfile {
+	return {
+		...DEFAULT_PROFILE,
+		id: `${Date.now().toString(36)}${Math.random().toString(36).substring(2, 6)}`,
+		name: `Profile ${existing.length + 1}`
+	};
+}
+
+// The default profile keeps the original file name so state written before
+// profiles existed is picked up without a full re-download.
+export function getStateFileName(profile: SyncProfile): string {
+	return profile.id === DEFAULT_PROFILE.id ? "sync-state.json" : `sync-state-${profile.id}.json`;
+}
+
+export function isProfileConfigured(profile: SyncProfile): boolean {
+	return !!(profile.repositoryUrl && profile.personalAccessToken && profile.branch);
+}
+
+// Two configured profiles writing into the same vault folder would fight
+// over the same paths. Returns the profiles sharing a folder with `profile`.
+export function findFolderConflicts(profile: SyncProfile, profiles: SyncProfile[]): SyncProfile[] {
+	const folderKey = (p: SyncProfile) => p.localTargetFolder.replace(/^\/+|\/+$/g, "").toLowerCase();
+	return profiles.filter(other =>
+		other.id !== profile.id &&
+		isProfileConfigured(other) &&
+		folderKey(other) === folderKey(profile)
+	);
+}
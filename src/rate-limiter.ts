@@ -0,0 +1,143 @@
+import { RequestUrlResponse } from "obsidian";
+import { FileChange, RateLimitStatus } from "./types";
+import { Logger } from "./logger";
+
+// Waits up to this long inside a request; longer limits defer the sync
+const MAX_PAUSE_MS = 90 * 1000;
+// GitHub asks clients to wait at least a minute after a secondary rate
+// limit response that carries no Retry-After header
+const SECONDARY_LIMIT_WAIT_MS = 60 * 1000;
+
+// Thrown when the GitHub API budget is used up for longer than a request
+// should wait. The sync stops and is picked up again after `resetAt`.
+export class RateLimitError extends Error {
+	resetAt: number;
+
+	constructor(resetAt: number) {
+		super(`GitHub API rate limit reached until ${new Date(resetAt).toLocaleTimeString()}`);
+		this.name = "RateLimitError";
+		this.resetAt = resetAt;
+	}
+}
+
+// Upper bound of API requests applying the changes takes: one download per
+// distinct blob written. Deletions cost nothing, and Git LFS downloads are
+// not counted against the API limit.
+export function estimateRequests(changes: FileChange[]): number {
+	const blobs = changes.filter(change => change.changeType !== "deleted").map(change => change.sha);
+	return new Set(blobs).size;
+}
+
+// The limit belongs to the token, so every GitHubAPI using it (profiles
+// sharing a token, submodule repositories) shares one limiter.
+const limiters = new Map<string, RateLimiter>();
+
+export function getRateLimiter(token: string, logger: Logger): RateLimiter {
+	let limiter = limiters.get(token);
+	if (!limiter) {
+		limiter = new RateLimiter(logger);
+		limiters.set(token, limiter);
+	}
+	return limiter;
+}
+
+// Tracks the core API budget from the x-ratelimit-* headers of every
+// response and holds requests back once it is used up.
+export class RateLimiter {
+	private logger: Logger;
+	private current: RateLimitStatus | null = null;
+	// Set by a secondary limit response; no request is sent before it
+	private blockedUntil = 0;
+
+	constructor(logger: Logger) {
+		this.logger = logger;
+	}
+
+	// Last known budget; null before the first response or after the reset
+	get status(): RateLimitStatus | null {
+		if (this.current && this.current.reset * 1000 <= Date.now()) {
+			this.current = null;
+		}
+		return this.current;
+	}
+
+	update(headers: Record<string, string>): void {
+		const header = (name: string) => getHeader(headers, name);
+		const resource = header("x-ratelimit-resource");
+		const remaining = header("x-ratelimit-remaining");
+		if (remaining === undefined || (resource && resource !== "core")) {
+			return;
+		}
+		this.current = {
+			limit: Number(header("x-ratelimit-limit")) || 0,
+			remaining: Number(remaining) || 0,
+			reset: Number(header("x-ratelimit-reset")) || 0
+		};
+	}
+
+	// Waits until a request may be sent. Throws RateLimitError when that is
+	// further away than MAX_PAUSE_MS.
+	async acquire(): Promise<void> {
+		const status = this.status;
+		const resumeAt = Math.max(
+			this.blockedUntil,
+			status && status.remaining <= 0 ? status.reset * 1000 : 0
+		);
+		await this.pauseUntil(resumeAt);
+	}
+
+	// Returns true when the response is a primary or secondary rate limit,
+	// after waiting long enough for the request to be retried.
+	async handleLimitResponse(response: RequestUrlResponse): Promise<boolean> {
+		if (response.status !== 403 && response.status !== 429) {
+			return false;
+		}
+		const header = (name: string) => getHeader(response.headers, name);
+		const retryAfter = header("retry-after");
+		let resumeAt: number;
+		if (retryAfter !== undefined) {
+			resumeAt = Date.now() + (Number(retryAfter) || 0) * 1000;
+		} else if (header("x-ratelimit-remaining") === "0") {
+			resumeAt = (Number(header("x-ratelimit-reset")) || 0) * 1000;
+		} else if (response.status === 429 || /rate limit/i.test(safeText(response))) {
+			resumeAt = Date.now() + SECONDARY_LIMIT_WAIT_MS;
+		} else {
+			// A plain 403, such as a missing permission or a file too large
+			return false;
+		}
+
+		this.logger.warn("GitHub API rate limit response", {
+			status: response.status,
+			resumeAt: new Date(resumeAt).toISOString()
+		});
+		this.blockedUntil = Math.max(this.blockedUntil, resumeAt);
+		await this.pauseUntil(resumeAt);
+		return true;
+	}
+
+	private async pauseUntil(resumeAt: number): Promise<void> {
+		const wait = resumeAt - Date.now();
+		if (wait <= 0) {
+			return;
+		}
+		if (wait > MAX_PAUSE_MS) {
+			throw new RateLimitError(resumeAt);
+		}
+		this.logger.info(`Pausing ${Math.ceil(wait / 1000)}s for the GitHub API rate limit`);
+		await new Promise(resolve => setTimeout(resolve, wait));
+	}
+}
+
+// Header names are lower-case on desktop but keep their case on mobile
+export function getHeader(headers: Record<string, string>, name: string): string | undefined {
+	const key = Object.keys(headers ?? {}).find(candidate => candidate.toLowerCase() === name);
+	return key === undefined ? undefined : headers[key];
+}
+
+function safeText(response: RequestUrlResponse): string {
+	try {
+		return response.text;
+	} catch {
+		return "";
+	}
+}
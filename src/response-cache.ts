@@ -0,0 +1,102 @@
+import { App } from "obsidian";
+import { Logger } from "./logger";
+
+// Least recently used responses are dropped past this total size
+const MAX_CACHE_CHARS = 8 * 1024 * 1024;
+
+interface CachedResponse {
+	etag: string;
+	body: unknown;
+	// Serialized length, counted against MAX_CACHE_CHARS
+	size: number;
+}
+
+// ETags and bodies of GitHub API responses, kept in
+// .obsidian/plugins/<plugin>/response-cache.json so repeated tree, ref and
+// repository requests can be sent as conditional requests. A 304 answer
+// costs no rate limit and carries no body.
+export class ResponseCache {
+	private app: App;
+	private pluginId: string;
+	private logger: Logger;
+	// Insertion order is recency order: reads move an entry to the end
+	private entries = new Map<string, CachedResponse>();
+	private totalSize = 0;
+	private writeQueue: Promise<void> = Promise.resolve();
+	private writePending = false;
+
+	constructor(app: App, pluginId: string, logger: Logger) {
+		this.app = app;
+		this.pluginId = pluginId;
+		this.logger = logger;
+	}
+
+	private get cachePath(): string {
+		return `.obsidian/plugins/${this.pluginId}/response-cache.json`;
+	}
+
+	async load(): Promise<void> {
+		this.entries.clear();
+		this.totalSize = 0;
+		try {
+			const parsed = JSON.parse(await this.app.vault.adapter.read(this.cachePath));
+			for (const [url, entry] of Array.isArray(parsed) ? parsed : []) {
+				this.entries.set(url, entry);
+				this.totalSize += entry.size;
+			}
+			this.logger.debug("Response cache loaded", { entries: this.entries.size });
+		} catch {
+			// No cache yet, or an unreadable file that the next write replaces
+		}
+	}
+
+	get(url: string): { etag: string; body: unknown } | undefined {
+		const entry = this.entries.get(url);
+		if (entry) {
+			this.entries.delete(url);
+			this.entries.set(url, entry);
+		}
+		return entry;
+	}
+
+	set(url: string, etag: string, body: unknown): void {
+		const size = JSON.stringify(body).length;
+		this.remove(url);
+		if (size > MAX_CACHE_CHARS) {
+			this.scheduleWrite();
+			return;
+		}
+		this.entries.set(url, { etag, body, size });
+		this.totalSize += size;
+		for (const oldest of Array.from(this.entries.keys())) {
+			if (this.totalSize <= MAX_CACHE_CHARS) break;
+			this.remove(oldest);
+		}
+		this.scheduleWrite();
+	}
+
+	private remove(url: string): void {
+		const entry = this.entries.get(url);
+		if (entry) {
+			this.totalSize -= entry.size;
+			this.entries.delete(url);
+		}
+	}
+
+	// Responses stored in quick succession (a tree walk) share one write
+	private scheduleWrite(): void {
+		if (this.writePending) {
+			return;
+		}
+		this.writePending = true;
+		this.writeQueue = this.writeQueue
+			.then(() => {
+				this.writePending = false;
+				return this.app.vault.adapter.write(this.cachePath, JSON.stringify(Array.from(this.entries.entries())));
+			})
+			.catch(error => {
+				// Without the file the next sync simply sends full requests
+				this.logger.warn("Failed to save response cache", error);
+			});
+	}
+}
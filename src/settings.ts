@@ -1,5 +1,9 @@
 import { App, PluginSettingTab, Setting, Notice, TFile } from "obsidian";
 import GitHubSyncPlugin from "../main";
+import { ConflictResolution, RefType, SymlinkHandling, SyncProfile } from "./types";
+import { createProfile, findFolderConflicts } from "./profiles";
+import { PathFilter, IGNORE_FILE } from "./path-filter";
+import { formatBytes } from "./sync-preview-modal";
 
 export class GitHubSyncSettingTab extends PluginSettingTab {
 	plugin: GitHubSyncPlugin;
@@ -14,126 +18,214 @@ export class GitHubSyncSettingTab extends PluginSettingTab {
 		containerEl.empty();
 
 		new Setting(containerEl)
-			.setName("Remote repository")
+			.setName("Sync")
 			.setHeading();
 
-		// Repository URL
+		// Auto-sync toggle
 		new Setting(containerEl)
-			.setName("Repository")
-			.setDesc("GitHub repository in owner/repo format (e.g., username/my-vault)")
-			.addText(text => text
-				.setPlaceholder("Username/my-vault")
-				.setValue(this.plugin.settings.repositoryUrl)
+			.setName("Auto-sync on launch")
+			.setDesc("Automatically sync when Obsidian starts")
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.autoSyncOnLaunch)
 				.onChange(async (value) => {
-					this.plugin.settings.repositoryUrl = value.trim();
+					this.plugin.settings.autoSyncOnLaunch = value;
 					await this.plugin.saveSettings();
 				}));
 
-		// Branch
+		// Interval sync
 		new Setting(containerEl)
-			.setName("Branch")
-			.setDesc("Branch to sync from (usually 'main' or 'master')")
-			.addText(text => text
-				.setPlaceholder("Main")
-				.setValue(this.plugin.settings.branch)
+			.setName("Sync interval")
+			.setDesc("Sync in the background every N minutes while Obsidian is open. 0 turns it off.")
+			.addText(text => {
+				text
+					.setPlaceholder("0")
+					.setValue(String(this.plugin.settings.syncIntervalMinutes))
+					.onChange(async (value) => {
+						const minutes = parseInt(value, 10);
+						this.plugin.settings.syncIntervalMinutes = isNaN(minutes) || minutes < 0 ? 0 : minutes;
+						await this.plugin.saveSettings();
+					});
+				text.inputEl.type = "number";
+			});
+
+		// Sync on focus
+		new Setting(containerEl)
+			.setName("Sync on focus")
+			.setDesc("Sync when Obsidian regains focus (desktop) or returns to the foreground (mobile)")
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.syncOnFocus)
 				.onChange(async (value) => {
-					this.plugin.settings.branch = value.trim() || "main";
+					this.plugin.settings.syncOnFocus = value;
 					await this.plugin.saveSettings();
 				}));
 
-		// Personal Access Token
+		// Minimum spacing
 		new Setting(containerEl)
-			.setName("Personal access token")
-			.setDesc("GitHub PAT with repo permissions (create at github.com/settings/tokens)")
+			.setName("Minimum time between syncs")
+			.setDesc("Background syncs are skipped if any sync ran within this many minutes")
 			.addText(text => {
 				text
-					.setPlaceholder("Ghp_xxxxxxxxxxxx")
-					.setValue(this.plugin.settings.personalAccessToken)
+					.setPlaceholder("5")
+					.setValue(String(this.plugin.settings.minMinutesBetweenSyncs))
 					.onChange(async (value) => {
-						this.plugin.settings.personalAccessToken = value.trim();
+						const minutes = parseInt(value, 10);
+						this.plugin.settings.minMinutesBetweenSyncs = isNaN(minutes) || minutes < 0 ? 0 : minutes;
 						await this.plugin.saveSettings();
 					});
-				text.inputEl.type = "password";
+				text.inputEl.type = "number";
 			});
 
-		// Test connection button
+		// Conflict resolution
 		new Setting(containerEl)
-			.setName("Test connection")
-			.setDesc("Verify GitHub credentials and check rate limit")
-			.addButton(button => button
-				.setButtonText("Test connection")
-				.onClick(async () => {
-					button.setDisabled(true);
-					button.setButtonText("Testing...");
-					
-					try {
-						const success = await this.plugin.syncEngine.testConnection();
-						
-						if (success) {
-							new Notice("Connection successful!");
-							
-							// Show rate limit info
-							const rateLimit = await this.plugin.syncEngine.getRateLimit();
-							new Notice(
-								`Rate limit: ${rateLimit.remaining}/${rateLimit.limit} remaining`,
-								5000
-							);
-						} else {
-							new Notice("Connection failed. Check your settings.");
-						}
-					} catch (err) {
-						const errorMessage = err instanceof Error ? err.message : String(err);
-						new Notice(`Error: ${errorMessage}`);
-					}
-					
-					button.setDisabled(false);
-					button.setButtonText("Test connection");
+			.setName("Local edits")
+			.setDesc("What to do when a file changed on GitHub was also edited in this vault since the last sync")
+			.addDropdown(dropdown => dropdown
+				.addOption("keep-both", "Keep both (save local copy as .conflict)")
+				.addOption("keep-local", "Keep local version")
+				.addOption("take-remote", "Take GitHub version")
+				.setValue(this.plugin.settings.conflictResolution)
+				.onChange(async (value) => {
+					this.plugin.settings.conflictResolution = value as ConflictResolution;
+					await this.plugin.saveSettings();
 				}));
 
 		new Setting(containerEl)
-			.setName("Sync")
-			.setHeading();
-		// Auto-sync toggle
+			.setName("Symlinks")
+			.setDesc("Symbolic links in the repository can't be created in the vault")
+			.addDropdown(dropdown => dropdown
+				.addOption("copy", "Copy the linked file or folder")
+				.addOption("skip", "Skip")
+				.setValue(this.plugin.settings.symlinkHandling)
+				.onChange(async (value) => {
+					this.plugin.settings.symlinkHandling = value as SymlinkHandling;
+					await this.plugin.saveSettings();
+				}));
+
 		new Setting(containerEl)
-			.setName("Auto-sync on launch")
-			.setDesc("Automatically sync when Obsidian starts")
+			.setName("Sync submodules")
+			.setDesc("Pull each GitHub submodule from its own repository into its folder, using the same token")
 			.addToggle(toggle => toggle
-				.setValue(this.plugin.settings.autoSyncOnLaunch)
+				.setValue(this.plugin.settings.syncSubmodules)
 				.onChange(async (value) => {
-					this.plugin.settings.autoSyncOnLaunch = value;
+					this.plugin.settings.syncSubmodules = value;
 					await this.plugin.saveSettings();
 				}));
 
-		// Last sync display
-		if (this.plugin.settings.lastSyncTime > 0) {
-			const lastSync = new Date(this.plugin.settings.lastSyncTime);
-			containerEl.createEl("p", {
-				text: `Last sync: ${lastSync.toLocaleString()}`,
-				cls: "setting-item-description"
+		// Snapshot retention
+		new Setting(containerEl)
+			.setName("Undo history")
+			.setDesc("Number of syncs per profile that \"Revert last sync\" can undo. 0 turns snapshots off.")
+			.addText(text => {
+				text
+					.setPlaceholder("5")
+					.setValue(String(this.plugin.settings.snapshotsToKeep))
+					.onChange(async (value) => {
+						const count = parseInt(value, 10);
+						this.plugin.settings.snapshotsToKeep = isNaN(count) || count < 0 ? 0 : count;
+						await this.plugin.saveSettings();
+					});
+				text.inputEl.type = "number";
+			});
+
+		new Setting(containerEl)
+			.setName("Undo history size limit")
+			.setDesc("Older snapshots are removed once a profile's snapshots exceed this many MB (the newest is always kept)")
+			.addText(text => {
+				text
+					.setPlaceholder("100")
+					.setValue(String(this.plugin.settings.maxSnapshotMB))
+					.onChange(async (value) => {
+						const mb = parseInt(value, 10);
+						this.plugin.settings.maxSnapshotMB = isNaN(mb) || mb < 0 ? 0 : mb;
+						await this.plugin.saveSettings();
+					});
+				text.inputEl.type = "number";
 			});
-		}
 
-		// Manual sync button
+		new Setting(containerEl)
+			.setName("Git LFS size limit")
+			.setDesc("Git LFS files larger than this many MB are skipped instead of downloaded. 0 downloads every LFS file.")
+			.addText(text => {
+				text
+					.setPlaceholder("50")
+					.setValue(String(this.plugin.settings.maxLfsFileMB))
+					.onChange(async (value) => {
+						const mb = parseInt(value, 10);
+						this.plugin.settings.maxLfsFileMB = isNaN(mb) || mb < 0 ? 0 : mb;
+						await this.plugin.saveSettings();
+					});
+				text.inputEl.type = "number";
+			});
+
+		new Setting(containerEl)
+			.setName("Download cache")
+			.setDesc(
+				"Keeps downloaded files, up to this many MB, so content pulled before (another branch, " +
+				"a reverted commit, a reinstall) is not downloaded again. 0 turns the cache off. " +
+				`Currently using ${formatBytes(this.plugin.blobCacheSize)}.`
+			)
+			.addText(text => {
+				text
+					.setPlaceholder("0")
+					.setValue(String(this.plugin.settings.blobCacheMB))
+					.onChange(async (value) => {
+						const mb = parseInt(value, 10);
+						this.plugin.settings.blobCacheMB = isNaN(mb) || mb < 0 ? 0 : mb;
+						await this.plugin.saveSettings();
+					});
+				text.inputEl.type = "number";
+			})
+			.addButton(button => button
+				.setButtonText("Clear cache")
+				.onClick(async () => {
+					await this.plugin.clearBlobCache();
+					new Notice("Download cache cleared");
+					this.display();
+				}));
+
+		// Sync all profiles
 		new Setting(containerEl)
 			.setName("Manual sync")
-			.setDesc("Sync now from GitHub to your vault")
+			.setDesc("Sync every configured profile now")
 			.addButton(button => button
-				.setButtonText("Sync now")
+				.setButtonText("Sync all")
 				.setCta()
 				.onClick(async () => {
 					button.setDisabled(true);
 					button.setButtonText("Syncing...");
-					
+
 					try {
-							await this.plugin.syncEngine.performSync(true);
-							this.display(); // Refresh to show updated last sync time
-						} catch (err) {
-							const errorMessage = err instanceof Error ? err.message : String(err);
-							new Notice(`Sync error: ${errorMessage}`);
-						}
-					
+						await this.plugin.syncAllProfiles(true);
+						this.display(); // Refresh to show updated last sync times
+					} catch (err) {
+						const errorMessage = err instanceof Error ? err.message : String(err);
+						new Notice(`Sync error: ${errorMessage}`);
+					}
+
 					button.setDisabled(false);
-					button.setButtonText("Sync now");
+					button.setButtonText("Sync all");
+				}))
+			.addButton(button => button
+				.setButtonText("Cancel")
+				.setTooltip("Stop running syncs after the files being written")
+				.onClick(() => {
+					this.plugin.cancelSyncs();
+				}));
+
+		for (const profile of this.plugin.settings.profiles) {
+			this.displayProfile(containerEl, profile);
+		}
+
+		// Add profile
+		new Setting(containerEl)
+			.setName("Add profile")
+			.setDesc("Sync another repository into this vault. Give each profile its own vault folder.")
+			.addButton(button => button
+				.setButtonText("Add profile")
+				.onClick(async () => {
+					this.plugin.settings.profiles.push(createProfile(this.plugin.settings.profiles));
+					await this.plugin.saveSettings();
+					this.display();
 				}));
 
 		// Debug section
@@ -186,4 +278,267 @@ export class GitHubSyncSettingTab extends PluginSettingTab {
 					}
 				}));
 	}
-}
\ No newline at end of file
+
+	private displayProfile(containerEl: HTMLElement, profile: SyncProfile): void {
+		new Setting(containerEl)
+			.setName(profile.name)
+			.setHeading();
+
+		// Profile name
+		new Setting(containerEl)
+			.setName("Profile name")
+			.setDesc("Shown in commands and sync notifications")
+			.addText(text => text
+				.setValue(profile.name)
+				.onChange(async (value) => {
+					profile.name = value.trim() || "Unnamed profile";
+					await this.plugin.saveSettings();
+				}));
+
+		// Repository URL
+		new Setting(containerEl)
+			.setName("Repository")
+			.setDesc("GitHub repository in owner/repo format (e.g., username/my-vault), or its full URL on a GitHub Enterprise Server (e.g., https://github.example.com/username/my-vault)")
+			.addText(text => text
+				.setPlaceholder("Username/my-vault")
+				.setValue(profile.repositoryUrl)
+				.onChange(async (value) => {
+					profile.repositoryUrl = value.trim();
+					await this.plugin.saveSettings();
+				}));
+
+		// Endpoint overrides for Enterprise Servers behind a proxy or on a separate API host
+		new Setting(containerEl)
+			.setName("API URL")
+			.setDesc("REST API base URL. Leave empty to derive it from the repository URL (https://<host>/api/v3 on GitHub Enterprise Server).")
+			.addText(text => text
+				.setPlaceholder("https://github.example.com/api/v3")
+				.setValue(profile.apiBaseUrl)
+				.onChange(async (value) => {
+					profile.apiBaseUrl = value.trim();
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName("Raw file URL")
+			.setDesc("Base URL for raw file downloads. Leave empty to derive it from the repository URL (https://<host>/raw on GitHub Enterprise Server).")
+			.addText(text => text
+				.setPlaceholder("https://github.example.com/raw")
+				.setValue(profile.rawBaseUrl)
+				.onChange(async (value) => {
+					profile.rawBaseUrl = value.trim();
+					await this.plugin.saveSettings();
+				}));
+
+		// Ref mode
+		new Setting(containerEl)
+			.setName("Track")
+			.setDesc("Follow a branch, or pin the vault to a tag or an exact commit")
+			.addDropdown(dropdown => dropdown
+				.addOption("branch", "Branch")
+				.addOption("tag", "Tag")
+				.addOption("commit", "Commit")
+				.setValue(profile.refType)
+				.onChange(async (value) => {
+					profile.refType = value as RefType;
+					await this.plugin.saveSettings();
+					this.display(); // Show the field for the chosen mode
+				}));
+
+		if (profile.refType === "branch") {
+			// Branch
+			new Setting(containerEl)
+				.setName("Branch")
+				.setDesc("Branch to sync from (usually 'main' or 'master')")
+				.addText(text => text
+					.setPlaceholder("Main")
+					.setValue(profile.branch)
+					.onChange(async (value) => {
+						profile.branch = value.trim() || "main";
+						await this.plugin.saveSettings();
+					}));
+		} else {
+			// Pinned tag or commit
+			const isTag = profile.refType === "tag";
+			new Setting(containerEl)
+				.setName(isTag ? "Tag" : "Commit")
+				.setDesc(isTag ? "Tag to sync (e.g. v2026-fall)" : "Full 40-character commit SHA to sync")
+				.addText(text => text
+					.setPlaceholder(isTag ? "v1.0.0" : "0123456789abcdef0123456789abcdef01234567")
+					.setValue(profile.pinnedRef)
+					.onChange(async (value) => {
+						profile.pinnedRef = value.trim();
+						await this.plugin.saveSettings();
+					}));
+		}
+
+		// Current commit display
+		const syncedCommit = this.plugin.getEngine(profile.id)?.syncedCommitSHA;
+		containerEl.createEl("p", {
+			text: syncedCommit
+				? `Vault is on commit ${syncedCommit.substring(0, 7)}`
+				: "Vault is not on a known commit yet (no complete sync)",
+			cls: "setting-item-description"
+		});
+
+		// Personal Access Token
+		new Setting(containerEl)
+			.setName("Personal access token")
+			.setDesc("GitHub PAT with repo permissions (create at github.com/settings/tokens)")
+			.addText(text => {
+				text
+					.setPlaceholder("Ghp_xxxxxxxxxxxx")
+					.setValue(profile.personalAccessToken)
+					.onChange(async (value) => {
+						profile.personalAccessToken = value.trim();
+						await this.plugin.saveSettings();
+					});
+				text.inputEl.type = "password";
+			});
+
+		// Test connection button
+		new Setting(containerEl)
+			.setName("Test connection")
+			.setDesc("Verify GitHub credentials and check rate limit")
+			.addButton(button => button
+				.setButtonText("Test connection")
+				.onClick(async () => {
+					button.setDisabled(true);
+					button.setButtonText("Testing...");
+					
+					try {
+						const engine = this.plugin.getEngine(profile.id);
+						const server = engine ? await engine.getServerInfo() : null;
+						if (server) {
+							new Notice(server.version
+								? `Reached GitHub Enterprise Server ${server.version} at ${server.host}`
+								: `Reached ${server.host}`);
+						}
+						const success = !!engine && await engine.testConnection();
+						
+						if (success) {
+							new Notice("Connection successful!");
+							
+							// Show rate limit info
+							const rateLimit = await engine.getRateLimit();
+							new Notice(
+								`Rate limit: ${rateLimit.remaining}/${rateLimit.limit} remaining`,
+								5000
+							);
+						} else {
+							new Notice("Connection failed. Check your settings.");
+						}
+					} catch (err) {
+						const errorMessage = err instanceof Error ? err.message : String(err);
+						new Notice(`Error: ${errorMessage}`);
+					}
+					
+					button.setDisabled(false);
+					button.setButtonText("Test connection");
+				}));
+
+		const folderConflicts = findFolderConflicts(profile, this.plugin.settings.profiles);
+		if (folderConflicts.length > 0) {
+			containerEl.createEl("p", {
+				text: `Shares its vault folder with ${folderConflicts.map(other => `"${other.name}"`).join(", ")}. ` +
+					"Profiles syncing into the same folder are not synced until one of them is moved.",
+				cls: "setting-item-description mod-warning"
+			});
+		}
+
+		// Remote path prefix
+		new Setting(containerEl)
+			.setName("Repository folder")
+			.setDesc("Only sync this folder of the repository (e.g. vault). Leave empty to sync the whole repository.")
+			.addText(text => text
+				.setPlaceholder("vault")
+				.setValue(profile.remotePathPrefix)
+				.onChange(async (value) => {
+					profile.remotePathPrefix = value.trim().replace(/^\/+|\/+$/g, "");
+					await this.plugin.saveSettings();
+				}));
+
+		// Local target folder
+		new Setting(containerEl)
+			.setName("Vault folder")
+			.setDesc("Place synced files in this vault folder (e.g. Team). Leave empty to use the vault root. Deletions never reach outside this folder.")
+			.addText(text => text
+				.setPlaceholder("Team")
+				.setValue(profile.localTargetFolder)
+				.onChange(async (value) => {
+					profile.localTargetFolder = value.trim().replace(/^\/+|\/+$/g, "");
+					await this.plugin.saveSettings();
+				}));
+
+		// Include patterns
+		new Setting(containerEl)
+			.setName("Include paths")
+			.setDesc("Only sync repository paths matching these patterns, one per line (e.g. notes/**). Leave empty to include everything.")
+			.addTextArea(text => text
+				.setPlaceholder("notes/**")
+				.setValue(profile.includePatterns.join("\n"))
+				.onChange(async (value) => {
+					profile.includePatterns = PathFilter.parsePatterns(value);
+					await this.plugin.saveSettings();
+				}));
+
+		// Exclude patterns
+		new Setting(containerEl)
+			.setName("Exclude paths")
+			.setDesc(`Skip repository paths matching these patterns, one per line (e.g. *.psd, archive/**). Patterns in a ${IGNORE_FILE} file at the repository root are applied too. Local copies of excluded files are left alone.`)
+			.addTextArea(text => text
+				.setPlaceholder("assets/raw/\n*.psd\narchive/**")
+				.setValue(profile.excludePatterns.join("\n"))
+				.onChange(async (value) => {
+					profile.excludePatterns = PathFilter.parsePatterns(value);
+					await this.plugin.saveSettings();
+				}));
+
+		// Last sync display
+		if (profile.lastSyncTime > 0) {
+			const lastSync = new Date(profile.lastSyncTime);
+			containerEl.createEl("p", {
+				text: `Last sync: ${lastSync.toLocaleString()}`,
+				cls: "setting-item-description"
+			});
+		}
+
+		// Manual sync button
+		new Setting(containerEl)
+			.setName("Manual sync")
+			.setDesc("Sync this profile now from GitHub to your vault")
+			.addButton(button => button
+				.setButtonText("Sync now")
+				.setCta()
+				.onClick(async () => {
+					button.setDisabled(true);
+					button.setButtonText("Syncing...");
+					
+					try {
+						await this.plugin.syncProfile(profile, true);
+						this.display(); // Refresh to show updated last sync time
+					} catch (err) {
+						const errorMessage = err instanceof Error ? err.message : String(err);
+						new Notice(`Sync error: ${errorMessage}`);
+					}
+					
+					button.setDisabled(false);
+					button.setButtonText("Sync now");
+				}));
+
+		// Remove profile
+		if (this.plugin.settings.profiles.length > 1) {
+			new Setting(containerEl)
+				.setName("Remove profile")
+				.setDesc("Stop syncing this repository. Files already in the vault are kept.")
+				.addButton(button => button
+					.setButtonText("Remove")
+					.setWarning()
+					.onClick(async () => {
+						this.plugin.settings.profiles = this.plugin.settings.profiles.filter(p => p.id !== profile.id);
+						await this.plugin.saveSettings();
+						this.display();
+					}));
+		}
+	}
+}
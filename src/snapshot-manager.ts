@@ -0,0 +1,196 @@
+import { App, normalizePath } from "obsidian";
+import { VaultSyncState } from "./types";
+import { Logger } from "./logger";
+
+// One file touched by a sync. `blob` names the saved previous bytes; when it
+// is absent the file did not exist before the sync and reverting deletes it.
+interface SnapshotEntry {
+	localPath: string;
+	blob?: string;
+}
+
+interface SnapshotManifest {
+	createdAt: number;
+	totalBytes: number;
+	// Sync state before the sync ran; reverting restores it
+	previousState: VaultSyncState;
+	entries: SnapshotEntry[];
+}
+
+export interface SnapshotInfo {
+	id: string;
+	createdAt: number;
+	fileCount: number;
+}
+
+// Collects the pre-sync contents of every file one sync writes or deletes.
+// Created by SnapshotManager.begin and written to disk by commit().
+export class SyncSnapshot {
+	private app: App;
+	private dir: string;
+	private manifest: SnapshotManifest;
+	private captured = new Set<string>();
+	private nextBlob = 0;
+	private dirCreated = false;
+
+	constructor(app: App, dir: string, previousState: VaultSyncState) {
+		this.app = app;
+		this.dir = dir;
+		this.manifest = {
+			createdAt: Date.now(),
+			totalBytes: 0,
+			previousState: JSON.parse(JSON.stringify(previousState)),
+			entries: []
+		};
+	}
+
+	get isEmpty(): boolean {
+		return this.manifest.entries.length === 0;
+	}
+
+	// Must be called before the sync changes `localPath`. Only the first
+	// capture of a path counts, so the snapshot always holds the original.
+	async capture(localPath: string): Promise<void> {
+		const normalizedPath = normalizePath(localPath);
+		if (this.captured.has(normalizedPath)) return;
+		this.captured.add(normalizedPath);
+
+		const adapter = this.app.vault.adapter;
+		if (!(await adapter.exists(normalizedPath))) {
+			this.manifest.entries.push({ localPath: normalizedPath });
+			return;
+		}
+
+		// Reserve the name before awaiting; captures run in parallel batches.
+		const blob = `${this.nextBlob++}.bin`;
+		await this.ensureDir();
+		const content = await adapter.readBinary(normalizedPath);
+		await adapter.writeBinary(`${this.dir}/${blob}`, content);
+		this.manifest.entries.push({ localPath: normalizedPath, blob });
+		this.manifest.totalBytes += content.byteLength;
+	}
+
+	async commit(): Promise<void> {
+		if (this.isEmpty) return;
+		await this.ensureDir();
+		await this.app.vault.adapter.write(
+			`${this.dir}/manifest.json`,
+			JSON.stringify(this.manifest, null, 2)
+		);
+	}
+
+	private async ensureDir(): Promise<void> {
+		if (this.dirCreated) return;
+		try {
+			await this.app.vault.adapter.mkdir(this.dir);
+		} catch {
+			// Directory might already exist, ignore error
+		}
+		this.dirCreated = true;
+	}
+}
+
+// Stores per-sync snapshots for one profile under
+// .obsidian/plugins/<plugin>/snapshots/<profile>/<timestamp>/ and restores
+// the newest one on request.
+export class SnapshotManager {
+	private app: App;
+	private rootDir: string;
+	private logger: Logger;
+
+	constructor(app: App, pluginId: string, profileId: string, logger: Logger) {
+		this.app = app;
+		this.rootDir = `.obsidian/plugins/${pluginId}/snapshots/${profileId}`;
+		this.logger = logger;
+	}
+
+	begin(previousState: VaultSyncState): SyncSnapshot {
+		return new SyncSnapshot(this.app, `${this.rootDir}/${Date.now()}`, previousState);
+	}
+
+	async getLatest(): Promise<SnapshotInfo | null> {
+		const ids = await this.listIds();
+		for (let i = ids.length - 1; i >= 0; i--) {
+			const manifest = await this.readManifest(ids[i]);
+			if (manifest) {
+				return { id: ids[i], createdAt: manifest.createdAt, fileCount: manifest.entries.length };
+			}
+		}
+		return null;
+	}
+
+	// Puts every captured file back the way it was and returns the sync
+	// state from before that sync. The snapshot is removed afterwards.
+	async restore(
+		id: string,
+		writeFile: (localPath: string, content: ArrayBuffer) => Promise<void>,
+		deleteFile: (localPath: string) => Promise<unknown>
+	): Promise<VaultSyncState> {
+		const manifest = await this.readManifest(id);
+		if (!manifest) {
+			throw new Error(`Snapshot ${id} is missing or unreadable`);
+		}
+
+		const dir = `${this.rootDir}/${id}`;
+		for (const entry of manifest.entries.slice().reverse()) {
+			if (entry.blob) {
+				const content = await this.app.vault.adapter.readBinary(`${dir}/${entry.blob}`);
+				await writeFile(entry.localPath, content);
+			} else {
+				await deleteFile(entry.localPath);
+			}
+		}
+
+		await this.remove(id);
+		this.logger.info(`Snapshot ${id} restored`, { fileCount: manifest.entries.length });
+		return manifest.previousState;
+	}
+
+	// Keeps at most `maxCount` snapshots and, beyond the newest one, no more
+	// than `maxBytes` in total. Oldest snapshots go first.
+	async prune(maxCount: number, maxBytes: number): Promise<void> {
+		const ids = await this.listIds();
+		let total = 0;
+		let kept = 0;
+		for (let i = ids.length - 1; i >= 0; i--) {
+			const manifest = await this.readManifest(ids[i]);
+			const size = manifest ? manifest.totalBytes : 0;
+			const isNewest = kept === 0 && !!manifest;
+			if (manifest && kept < maxCount && (isNewest || total + size <= maxBytes)) {
+				total += size;
+				kept++;
+			} else {
+				await this.remove(ids[i]);
+				this.logger.debug(`Pruned snapshot ${ids[i]}`);
+			}
+		}
+	}
+
+	private async listIds(): Promise<string[]> {
+		if (!(await this.app.vault.adapter.exists(this.rootDir))) {
+			return [];
+		}
+		const listing = await this.app.vault.adapter.list(this.rootDir);
+		return listing.folders
+			.map(folder => folder.substring(folder.lastIndexOf("/") + 1))
+			.filter(name => /^\d+$/.test(name))
+			.sort((a, b) => Number(a) - Number(b));
+	}
+
+	private async readManifest(id: string): Promise<SnapshotManifest | null> {
+		try {
+			const raw = await this.app.vault.adapter.read(`${this.rootDir}/${id}/manifest.json`);
+			return JSON.parse(raw) as SnapshotManifest;
+		} catch {
+			return null;
+		}
+	}
+
+	private async remove(id: string): Promise<void> {
+		try {
+			await this.app.vault.adapter.rmdir(`${this.rootDir}/${id}`, true);
+		} catch (error) {
+			this.logger.warn(`Failed to remove snapshot ${id}`, error);
+		}
+	}
+}
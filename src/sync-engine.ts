@@ -1,56 +1,169 @@
-import { App, Notice } from "obsidian";
-import { GitHubAPI } from "./github-api";
+import { App, Notice, Platform } from "obsidian";
+import { ContentIntegrityError, GitHubAPI, LfsObjectSkippedError } from "./github-api";
 import { SyncStateManager } from "./sync-state";
 import { FileManager } from "./file-manager";
-import { GitHubSyncSettings, SyncResult, FileChange } from "./types";
+import {
+	GitHubSyncSettings,
+	SyncProfile,
+	SyncResult,
+	PushResult,
+	FileChange,
+	FileSyncState,
+	GitHubTreeEntry,
+	DownloadedFile,
+	SyncTrigger,
+	SyncProgress,
+	RateLimitStatus,
+	GitHubServerInfo
+} from "./types";
 import { Logger } from "./logger";
+import { computeGitBlobSha, computeSha256 } from "./git-hash";
+import { PathFilter, IGNORE_FILE } from "./path-filter";
+import { PathMapper } from "./path-mapper";
+import { TreeExpander, GITMODULES_FILE, isLinkedEntry } from "./tree-expander";
+import { SnapshotManager, SyncSnapshot } from "./snapshot-manager";
+import { SyncHistory } from "./sync-history";
+import { ResponseCache } from "./response-cache";
+import { BlobCache } from "./blob-cache";
+import { estimateRequests, RateLimitError } from "./rate-limiter";
+import { RepositoryArchive } from "./zip-archive";
+import { MAX_POINTER_BYTES, parseLfsPointer } from "./lfs-pointer";
+
+// Copies written by the "keep both" conflict policy (see FileManager.getConflictPath)
+const CONFLICT_COPY_PATTERN = /\.conflict(-\d+)?(\.[^/.]+)?$/;
+
+// Files whose change invalidates an incremental (compare API) diff
+const LISTING_FILES = [IGNORE_FILE, GITMODULES_FILE];
+
+// Most folders listed to vet new paths from a compare result; past this a
+// full tree listing is cheaper
+const MAX_FOLDERS_TO_CHECK = 5;
+
+// Files applied between two saves of the sync state during a long sync
+const CHECKPOINT_INTERVAL = 50;
+
+// Downloads from which the repository archive is fetched instead of each
+// file, for incremental syncs and for the first sync of a profile
+const ARCHIVE_MIN_FILES = 100;
+const ARCHIVE_MIN_FILES_FIRST_SYNC = 10;
+// The archive of the whole repository is held in memory, so larger
+// repositories are downloaded file by file. Mobile apps get less memory.
+const ARCHIVE_MAX_REPOSITORY_BYTES = 100 * 1024 * 1024;
+const ARCHIVE_MAX_REPOSITORY_BYTES_MOBILE = 25 * 1024 * 1024;
+
+interface SyncRun {
+	fromCommit: string;
+	toCommit: string;
+	resumed: boolean;
+	changes: FileChange[];
+}
+
+interface SyncPlan {
+	headCommitSHA: string;
+	changes: FileChange[];
+	// Only part of the diff will be applied (preview deselected changes)
+	partial: boolean;
+	// Size of every file in the repository; known when the full tree was listed
+	repositoryBytes?: number;
+}
 
 export class SyncEngine {
 	private app: App;
 	private settings: GitHubSyncSettings;
+	private profile: SyncProfile;
 	private githubAPI: GitHubAPI;
+	private treeExpander: TreeExpander;
 	private stateManager: SyncStateManager;
+	private snapshots: SnapshotManager;
+	private history: SyncHistory;
+	private responseCache: ResponseCache;
+	private blobCache: BlobCache;
 	private fileManager: FileManager;
+	private pathMapper: PathMapper;
 	private isSyncing: boolean = false;
+	// Settings saved during a sync; the API and folder mapping are rebuilt once it ends
+	private reinitializePending = false;
+	// Set by cancelSync; checked before each download batch
+	private cancelRequested = false;
+	// Repository archive the running sync reads files from, if any
+	private archive: RepositoryArchive | null = null;
+	// Downloads shared by the running sync's changes with the same blob SHA,
+	// and how many of those changes have yet to pick theirs up
+	private blobDownloads = new Map<string, Promise<DownloadedFile>>();
+	private blobUsers = new Map<string, number>();
 	private logger: Logger;
 	private persistSettings?: () => Promise<void>;
+	// Returns the name of another profile already syncing a vault path, if any
+	private findPathOwner?: (profileId: string, localPath: string) => string | null;
+	private onProgress?: (progress: SyncProgress) => void;
 
 	constructor(
 		app: App,
 		settings: GitHubSyncSettings,
+		profile: SyncProfile,
 		stateManager: SyncStateManager,
+		snapshots: SnapshotManager,
+		history: SyncHistory,
+		responseCache: ResponseCache,
+		blobCache: BlobCache,
 		logger: Logger,
-		persistSettings?: () => Promise<void>
+		persistSettings?: () => Promise<void>,
+		findPathOwner?: (profileId: string, localPath: string) => string | null,
+		onProgress?: (progress: SyncProgress) => void
 	) {
 		this.app = app;
 		this.settings = settings;
+		this.profile = profile;
 		this.stateManager = stateManager;
+		this.snapshots = snapshots;
+		this.history = history;
+		this.responseCache = responseCache;
+		this.blobCache = blobCache;
 		this.fileManager = new FileManager(app);
 		this.logger = logger;
 		this.persistSettings = persistSettings;
-		this.logger.debug("SyncEngine initialized");
+		this.findPathOwner = findPathOwner;
+		this.onProgress = onProgress;
+		this.logger.debug("SyncEngine initialized", { profile: profile.name });
 		this.initializeAPI();
 	}
 
 	private initializeAPI(): void {
+		this.pathMapper = new PathMapper(
+			this.profile.remotePathPrefix,
+			this.profile.localTargetFolder
+		);
+
 		try {
 			// Don't initialize if settings are empty (first run)
-			if (!this.settings.repositoryUrl || !this.settings.personalAccessToken) {
+			if (!this.profile.repositoryUrl || !this.profile.personalAccessToken) {
 				this.logger.info("Skipping GitHub API initialization - settings not configured yet");
 				return;
 			}
 			
 			this.logger.debug("Initializing GitHub API", {
-				repo: this.settings.repositoryUrl,
-				branch: this.settings.branch,
-				hasToken: !!this.settings.personalAccessToken
+				profile: this.profile.name,
+				repo: this.profile.repositoryUrl,
+				branch: this.profile.branch,
+				refType: this.profile.refType,
+				pinnedRef: this.profile.pinnedRef,
+				hasToken: !!this.profile.personalAccessToken
 			});
 			
 			this.githubAPI = new GitHubAPI(
-				this.settings.repositoryUrl,
-				this.settings.personalAccessToken,
-				this.settings.branch,
-				this.logger
+				this.profile.repositoryUrl,
+				this.profile.personalAccessToken,
+				this.profile.branch,
+				this.logger,
+				this.profile.refType,
+				this.profile.pinnedRef,
+				this.responseCache,
+				{ apiUrl: this.profile.apiBaseUrl, rawUrl: this.profile.rawBaseUrl }
+			);
+			this.treeExpander = new TreeExpander(
+				this.githubAPI,
+				this.logger,
+				{ symlinks: this.settings.symlinkHandling, submodules: this.settings.syncSubmodules }
 			);
 			
 			this.logger.info("GitHub API initialized");
@@ -61,110 +174,278 @@ export class SyncEngine {
 		}
 	}
 
-	updateSettings(settings: GitHubSyncSettings): void {
+	updateSettings(settings: GitHubSyncSettings, profile: SyncProfile): void {
 		this.settings = settings;
+		this.profile = profile;
+		// A running sync keeps its resolved commit, link targets and folder
+		// mapping; settings are saved mid-sync by other profiles and by typing
+		// in the settings tab
+		if (this.isSyncing) {
+			this.reinitializePending = true;
+			return;
+		}
 		this.initializeAPI();
 	}
 
-	async performSync(showProgress = true): Promise<SyncResult> {
-		this.logger.info("=== Sync Started ===", { showProgress });
+	private endSync(): void {
+		this.isSyncing = false;
+		if (this.reinitializePending) {
+			this.reinitializePending = false;
+			this.initializeAPI();
+		}
+	}
+
+	get profileId(): string {
+		return this.profile.id;
+	}
+
+	get profileName(): string {
+		return this.profile.name;
+	}
+
+	get syncing(): boolean {
+		return this.isSyncing;
+	}
+
+	async loadState(): Promise<void> {
+		await this.stateManager.loadState();
+	}
+
+	// Asks a running sync to stop after the files it is currently writing.
+	// Returns false when no sync is running.
+	cancelSync(): boolean {
+		if (!this.isSyncing) {
+			return false;
+		}
+		this.logger.info("Sync cancellation requested");
+		this.cancelRequested = true;
+		return true;
+	}
+
+	// True when the last sync was cut short and the next one will resume it
+	get hasInterruptedSync(): boolean {
+		return !!this.stateManager.getCurrentState().journal;
+	}
+
+	// Commit the vault was last fully synced to, or "" if the last sync was
+	// incomplete or never ran.
+	get syncedCommitSHA(): string {
+		return this.stateManager.getCurrentState().lastCommitSHA;
+	}
+
+	// True when the vault path belongs to this profile: its sync state tracks
+	// the path, or the path lies inside the profile's own vault folder.
+	claimsLocalPath(localPath: string): boolean {
+		const remotePath = this.pathMapper.toRemote(localPath);
+		if (remotePath === null) {
+			return false;
+		}
+		return !!this.profile.localTargetFolder || !!this.stateManager.getFileState(remotePath);
+	}
+
+	private reportProgress(
+		phase: SyncProgress["phase"],
+		completed = 0,
+		total = 0,
+		result?: SyncResult
+	): void {
+		this.onProgress?.({
+			profileId: this.profile.id,
+			profileName: this.profile.name,
+			phase,
+			completed,
+			total,
+			result
+		});
+	}
+
+	// Prefixes Notices with the profile name once there is more than one profile.
+	private notify(message: string, timeout?: number): void {
+		const text = this.settings.profiles.length > 1 ? `${this.profile.name}: ${message}` : message;
+		new Notice(text, timeout);
+	}
+
+	// selectChanges lets a caller review the computed change set, along with
+	// the API budget left, before anything is written (used by the preview
+	// command). Returning null cancels the sync; returning a subset applies
+	// only those changes.
+	async performSync(
+		showProgress = true,
+		selectChanges?: (
+			changes: FileChange[],
+			rateLimit: RateLimitStatus | null,
+			toLocal: (path: string) => string
+		) => Promise<FileChange[] | null>,
+		trigger: SyncTrigger = "manual"
+	): Promise<SyncResult> {
+		this.logger.info("=== Sync Started ===", { showProgress, preview: !!selectChanges, trigger });
 		
 		// Check if configured
 		if (!this.githubAPI) {
 			const error = "Plugin not configured. Please set repository URL and Personal Access Token in settings.";
 			this.logger.error(error);
-			new Notice(error, 10000);
+			this.notify(error, 10000);
 			return {
 				success: false,
 				filesAdded: 0,
 				filesModified: 0,
 				filesDeleted: 0,
+				filesRenamed: 0,
+				filesSkipped: 0,
+				skippedPaths: [],
+				cancelled: false,
+				conflicts: [],
 				errors: [{ path: "", message: error, type: "unknown" }]
 			};
 		}
 		
 		if (this.isSyncing) {
 			this.logger.warn("Sync already in progress");
-			new Notice("Sync already in progress");
+			this.notify("Sync already in progress");
 			return {
 				success: false,
 				filesAdded: 0,
 				filesModified: 0,
 				filesDeleted: 0,
+				filesRenamed: 0,
+				filesSkipped: 0,
+				skippedPaths: [],
+				cancelled: false,
+				conflicts: [],
 				errors: [{ path: "", message: "Sync already in progress", type: "unknown" }]
 			};
 		}
 
 		this.isSyncing = true;
+		this.cancelRequested = false;
+		this.reportProgress("checking");
 		const startTime = Date.now();
+		// Filled in as the sync progresses, for the history entry
+		const run: SyncRun = { fromCommit: "", toCommit: "", resumed: false, changes: [] };
 		const result: SyncResult = {
 			success: true,
 			filesAdded: 0,
 			filesModified: 0,
 			filesDeleted: 0,
+			filesRenamed: 0,
+			filesSkipped: 0,
+			skippedPaths: [],
+			cancelled: false,
+			conflicts: [],
 			errors: []
 		};
 
 		try {
 			if (showProgress) {
-				new Notice("Starting sync from GitHub...");
+				this.notify("Starting sync from GitHub...");
 			}
 
-			// Step 1: Fetch remote repository tree
-			this.logger.info("Step 1: Fetching repository tree from GitHub");
-			const { files: remoteFiles, truncated } = await this.githubAPI.getRepositoryTree();
-			this.logger.info(`Fetched ${remoteFiles.length} files from GitHub`, { truncated });
+			// Step 1: Load local sync state
+			this.logger.info("Step 1: Loading local sync state");
+			await this.stateManager.loadState();
+			const loadedState = this.stateManager.getCurrentState();
+			run.fromCommit = loadedState.lastCommitSHA;
+			const filterSignature = this.getFilterSignature();
+			// Changed filter or folder settings can bring paths into scope that no
+			// commit touched, so they force a full tree diff.
+			const filtersChanged = loadedState.filterSignature !== filterSignature;
+			if (filtersChanged) {
+				this.logger.info("Path filters changed since last sync - running a full diff");
+			}
+			const previousCommitSHA = filtersChanged ? "" : loadedState.lastCommitSHA;
 
-			if (truncated) {
-				const warning =
-					"GitHub returned a truncated tree (repository exceeds the API limit). " +
-					"Skipping deletion detection this sync to avoid wiping local files that were " +
-					"merely omitted from the response.";
-				this.logger.warn(warning);
+			let plan: SyncPlan | null;
+			const journal = loadedState.journal;
+			if (journal && journal.filterSignature === filterSignature) {
+				// Files already written before the interruption are detected as
+				// matching the remote version and are not flagged as conflicts
+				// (Git LFS files by their pointer; see matchingLfsOid).
+				this.logger.info("Resuming interrupted sync", {
+					startedAt: new Date(journal.startedAt).toISOString(),
+					headCommitSHA: journal.headCommitSHA,
+					pending: journal.pending.length
+				});
 				if (showProgress) {
-					new Notice(
-						"GitHub tree was truncated — local files will not be deleted this sync.",
-						10000
-					);
+					this.notify(`Resuming interrupted sync (${journal.pending.length} file${journal.pending.length !== 1 ? "s" : ""} left)...`);
+				}
+				plan = { headCommitSHA: journal.headCommitSHA, changes: journal.pending, partial: journal.partial };
+				run.resumed = true;
+			} else {
+				if (journal) {
+					this.logger.info("Discarding interrupted sync - path filters changed since it started");
+				}
+				plan = await this.planSync(previousCommitSHA, filterSignature, showProgress, selectChanges);
+				if (!plan) {
+					return result;
 				}
 			}
+			const { headCommitSHA, changes } = plan;
+			run.toCommit = headCommitSHA;
+			run.changes = changes;
 
-			// Step 2: Load local sync state
-			this.logger.info("Step 2: Loading local sync state");
-			await this.stateManager.loadState();
-
-			// Step 3: Determine what changed
-			this.logger.info("Step 3: Comparing files to find changes");
-			const changes = await this.stateManager.getChangedFiles(remoteFiles, {
-				skipDeletions: truncated
-			});
-
-			if (changes.length === 0) {
-				this.logger.info("No changes detected - vault is up to date");
+			// Cancelled while listing the repository: nothing was written yet
+			if (this.cancelRequested) {
+				this.logger.info("Sync cancelled before applying changes");
+				result.success = false;
+				result.cancelled = true;
+				run.changes = [];
 				if (showProgress) {
-					new Notice("Vault is up to date");
+					this.notify("Sync cancelled");
 				}
 				return result;
 			}
 
-			this.logger.info(`Found ${changes.length} file(s) to sync`);
-			if (showProgress) {
-				new Notice(`Syncing ${changes.length} file${changes.length > 1 ? 's' : ''}...`);
+			const budget = this.describeBudget(changes);
+			this.logger.info(`Found ${changes.length} file(s) to sync`, { budget });
+			if (showProgress && changes.length > 0) {
+				this.notify(`Syncing ${changes.length} file${changes.length > 1 ? 's' : ''} (${budget})...`);
 			}
 
-			// Step 4: Download and apply changes
+			// Step 4: Download and apply changes, keeping the previous bytes of
+			// every touched file so the sync can be reverted
 			this.logger.info("Step 4: Downloading and applying changes");
-			await this.applyChanges(changes, result, showProgress);
+			const snapshot = this.settings.snapshotsToKeep > 0
+				? this.snapshots.begin(this.stateManager.getCurrentState())
+				: undefined;
+			const runningState = this.stateManager.getCurrentState();
+			runningState.journal = {
+				headCommitSHA,
+				filterSignature,
+				startedAt: journal?.startedAt ?? Date.now(),
+				partial: plan.partial,
+				pending: changes
+			};
+			await this.stateManager.saveState(runningState);
+			this.archive = await this.openArchive(changes, headCommitSHA, plan.repositoryBytes);
+			// History lists only what was applied when the sync is cancelled
+			run.changes = await this.applyChanges(changes, result, snapshot);
+			if (snapshot) {
+				await this.saveSnapshot(snapshot);
+			}
 
 			// Step 5: Save updated sync state
 			this.logger.info("Step 5: Saving sync state");
 			const currentState = this.stateManager.getCurrentState();
 			currentState.lastSyncTimestamp = Date.now();
+			// Only advance the commit marker when every change from the diff was
+			// applied. Otherwise clear it so the next sync falls back to a full
+			// tree diff and picks up the failed, deselected or cancelled files
+			// again. A cancelled sync drops its journal so it is not resumed
+			// automatically; the files it applied are tracked and not redone.
+			// A sync stopped by the rate limit keeps its journal and carries on
+			// from there once the limit resets.
+			const deferred = result.deferredUntil !== undefined;
+			const complete = result.errors.length === 0 && !plan.partial && !result.cancelled && !deferred;
+			currentState.lastCommitSHA = complete ? headCommitSHA : "";
+			currentState.filterSignature = filterSignature;
+			if (!deferred) {
+				delete currentState.journal;
+			}
 			await this.stateManager.saveState(currentState);
 
 			// Update settings with last sync time and persist so the value
 			// survives Obsidian restart (previously this was in-memory only).
-			this.settings.lastSyncTime = Date.now();
+			this.profile.lastSyncTime = Date.now();
 			if (this.persistSettings) {
 				try {
 					await this.persistSettings();
@@ -175,23 +456,48 @@ export class SyncEngine {
 
 			// Per-file failures are captured into result.errors inside applyFileChange
 			// rather than thrown — reflect them in the success flag and the user Notice.
-			result.success = result.errors.length === 0;
+			result.success = result.errors.length === 0 && !result.cancelled && !deferred;
 
 			const duration = Date.now() - startTime;
-			this.logger.info(result.success ? "=== Sync Complete ===" : "=== Sync Completed with errors ===", {
+			const outcome = result.cancelled
+				? "=== Sync Cancelled ==="
+				: deferred ? "=== Sync Deferred by Rate Limit ==="
+				: result.success ? "=== Sync Complete ===" : "=== Sync Completed with errors ===";
+			this.logger.info(outcome, {
 				duration: `${duration}ms`,
 				filesAdded: result.filesAdded,
 				filesModified: result.filesModified,
 				filesDeleted: result.filesDeleted,
+				filesRenamed: result.filesRenamed,
+				filesSkipped: result.filesSkipped,
+				conflicts: result.conflicts.length,
 				errors: result.errors.length
 			});
 
 			if (showProgress) {
-				const summary = `Added: ${result.filesAdded}, Modified: ${result.filesModified}, Deleted: ${result.filesDeleted}`;
-				if (result.success) {
-					new Notice(`Sync complete! ${summary}`, 5000);
+				let summary = `Added: ${result.filesAdded}, Modified: ${result.filesModified}, Deleted: ${result.filesDeleted}`;
+				if (result.conflicts.length > 0) {
+					summary += `, Conflicts: ${result.conflicts.length}`;
+				}
+				if (result.filesRenamed > 0) {
+					summary += `, Renamed: ${result.filesRenamed}`;
+				}
+				if (result.filesSkipped > 0) {
+					summary += `, Skipped (LFS size limit): ${result.filesSkipped}`;
+				}
+				if (result.cancelled) {
+					this.notify(`Sync cancelled. ${summary}`, 8000);
+				} else if (result.deferredUntil !== undefined) {
+					const left = currentState.journal?.pending.length ?? 0;
+					this.notify(
+						`GitHub API rate limit reached. ${summary}. ${left} file${left !== 1 ? "s" : ""} left; ` +
+						`the sync continues at ${new Date(result.deferredUntil).toLocaleTimeString()}.`,
+						10000
+					);
+				} else if (result.success) {
+					this.notify(`Sync complete! ${summary}`, 5000);
 				} else {
-					new Notice(
+					this.notify(
 						`Sync finished with ${result.errors.length} error${result.errors.length > 1 ? "s" : ""}. ${summary}. See debug logs.`,
 						10000
 					);
@@ -199,8 +505,19 @@ export class SyncEngine {
 			}
 
 		} catch (error) {
-			this.logger.error("Sync failed with error", error);
 			result.success = false;
+			if (error instanceof RateLimitError) {
+				// Nothing was applied yet; the whole sync runs after the reset
+				this.logger.warn("Sync deferred by the GitHub API rate limit", {
+					resetAt: new Date(error.resetAt).toISOString()
+				});
+				result.deferredUntil = error.resetAt;
+				if (showProgress) {
+					this.notify(`${error.message}. The sync runs again after that.`, 10000);
+				}
+				return result;
+			}
+			this.logger.error("Sync failed with error", error);
 			result.errors.push({
 				path: "",
 				message: error.message,
@@ -208,50 +525,436 @@ export class SyncEngine {
 			});
 			
 			if (showProgress) {
-				new Notice(`Sync failed: ${error.message}`, 10000);
+				this.notify(`Sync failed: ${error.message}`, 10000);
 			}
 			console.error("Sync error:", error);
 		} finally {
-			this.isSyncing = false;
+			this.archive = null;
+			this.blobDownloads.clear();
+			this.blobUsers.clear();
+			await this.recordHistory(trigger, startTime, run, result);
+			this.endSync();
+			this.reportProgress("done", run.changes.length, run.changes.length, result);
 			this.logger.info("Sync process ended");
 		}
 
 		return result;
 	}
 
+	// Background runs that found nothing to do are left out so they don't
+	// push real syncs out of the history.
+	private async recordHistory(
+		trigger: SyncTrigger,
+		startTime: number,
+		run: SyncRun,
+		result: SyncResult
+	): Promise<void> {
+		const background = trigger === "launch" || trigger === "interval" || trigger === "focus";
+		if (background && run.changes.length === 0 && result.errors.length === 0) {
+			return;
+		}
+
+		// Failed files, skipped LFS objects and local versions kept over the
+		// remote were not written. "Keep both" without a conflict copy is an
+		// edited file kept instead of deleted.
+		const keptLocal = result.conflicts.filter(conflict =>
+			conflict.resolution === "keep-local" || (conflict.resolution === "keep-both" && !conflict.conflictPath));
+		const notApplied = new Set(result.errors.map(error => error.path).concat(
+			result.skippedPaths,
+			keptLocal.map(conflict => conflict.path)
+		));
+		const toLocal = (path: string) => path ? this.pathMapper.toLocal(path) : path;
+
+		await this.history.record({
+			...result,
+			id: `${startTime}-${this.profile.id}`,
+			profileId: this.profile.id,
+			profileName: this.profile.name,
+			trigger,
+			resumed: run.resumed,
+			startedAt: startTime,
+			finishedAt: Date.now(),
+			fromCommit: run.fromCommit,
+			toCommit: run.toCommit,
+			files: run.changes
+				.filter(change => !notApplied.has(change.path))
+				.map(change => ({
+					path: toLocal(change.path),
+					changeType: change.changeType,
+					previousPath: change.previousPath ? toLocal(change.previousPath) : undefined
+				})),
+			skippedPaths: result.skippedPaths.map(toLocal),
+			conflicts: result.conflicts.map(conflict => ({ ...conflict, path: toLocal(conflict.path) })),
+			errors: result.errors.map(error => ({ ...error, path: toLocal(error.path) }))
+		});
+	}
+
+	// Steps 2 and 3: resolves the head commit and works out which changes to
+	// apply. Returns null when there is nothing to do or the preview was
+	// cancelled.
+	private async planSync(
+		previousCommitSHA: string,
+		filterSignature: string,
+		showProgress: boolean,
+		selectChanges?: (
+			changes: FileChange[],
+			rateLimit: RateLimitStatus | null,
+			toLocal: (path: string) => string
+		) => Promise<FileChange[] | null>
+	): Promise<SyncPlan | null> {
+		// Step 2: Resolve the tracked ref and stop early if nothing moved
+		this.logger.info("Step 2: Resolving head commit");
+		const headCommitSHA = await this.githubAPI.resolveCommitSHA();
+		this.logger.info("Head commit resolved", { headCommitSHA, previousCommitSHA });
+
+		if (previousCommitSHA && previousCommitSHA === headCommitSHA) {
+			this.logger.info("Head commit unchanged since last sync - vault is up to date");
+			if (showProgress) {
+				this.notify("Vault is up to date");
+			}
+			return null;
+		}
+
+		// Step 3: Determine what changed
+		this.logger.info("Step 3: Comparing files to find changes");
+		const { changes, repositoryBytes } = await this.findChanges(previousCommitSHA, headCommitSHA);
+
+		if (changes.length === 0) {
+			this.logger.info("No changes detected - vault is up to date");
+			const currentState = this.stateManager.getCurrentState();
+			currentState.lastCommitSHA = headCommitSHA;
+			currentState.filterSignature = filterSignature;
+			await this.stateManager.saveState(currentState);
+			if (showProgress) {
+				this.notify("Vault is up to date");
+			}
+			return null;
+		}
+
+		if (!selectChanges) {
+			return { headCommitSHA, changes, partial: false, repositoryBytes };
+		}
+
+		const selected = await selectChanges(changes, this.githubAPI.rateLimit, path => this.pathMapper.toLocal(path));
+		if (!selected || selected.length === 0) {
+			this.logger.info("Sync cancelled from preview", {
+				proposed: changes.length,
+				selected: selected ? 0 : null
+			});
+			if (showProgress) {
+				this.notify(selected ? "No changes selected - nothing synced" : "Sync cancelled");
+			}
+			return null;
+		}
+		this.logger.info(`Preview confirmed ${selected.length} of ${changes.length} change(s)`);
+		return { headCommitSHA, changes: selected, partial: selected.length !== changes.length, repositoryBytes };
+	}
+
+	// Uses the compare API when a previous sync commit is known, so only the
+	// paths touched since then are considered. Falls back to diffing the full
+	// recursive tree on first sync, after a force-push, or when the compare
+	// result is too large to be complete. The repository size comes with the
+	// full tree only.
+	private async findChanges(
+		previousCommitSHA: string,
+		headCommitSHA: string
+	): Promise<{ changes: FileChange[]; repositoryBytes?: number }> {
+		const filter = await this.buildPathFilter(headCommitSHA);
+
+		// Copies of symlink targets and submodule files change without their
+		// own path appearing in the compare result, so they need the full tree.
+		if (previousCommitSHA && !this.tracksCopiedFiles()) {
+			const compared = await this.githubAPI.compareCommits(previousCommitSHA, headCommitSHA);
+			const listingFileChanged = !!compared && compared.some(f =>
+				LISTING_FILES.includes(f.filename) || LISTING_FILES.includes(f.previous_filename ?? "")
+			);
+			if (compared && !listingFileChanged) {
+				this.logger.info(`Compare API returned ${compared.length} changed path(s)`);
+				const changes = this.stateManager.getChangesFromCompare(compared)
+					.filter(change => this.pathMapper.isInScope(change.path) && filter.matches(change.path));
+				if (!(await this.addsLinkedEntries(changes, headCommitSHA))) {
+					return { changes: this.stateManager.detectRenames(changes) };
+				}
+				this.logger.info("Compare range adds symlinks or submodules - falling back to full tree diff");
+			} else {
+				this.logger.info(listingFileChanged
+					? `${LISTING_FILES.join(" or ")} changed - falling back to full tree diff`
+					: "Compare result unusable - falling back to full tree diff");
+			}
+		}
+
+		const tree = await this.githubAPI.getRepositoryTree(headCommitSHA);
+		// What the repository archive holds: submodules are not in it
+		const repositoryBytes = tree.reduce((total, entry) => total + (entry.type === "blob" ? entry.size ?? 0 : 0), 0);
+		const allRemoteFiles = await this.treeExpander.expand(tree, headCommitSHA);
+		const remoteFiles = allRemoteFiles.filter(
+			f => this.pathMapper.isInScope(f.path) && filter.matches(f.path)
+		);
+		this.logger.info(`Fetched ${allRemoteFiles.length} files from GitHub`, {
+			included: remoteFiles.length
+		});
+		const changes = this.stateManager.detectRenames(await this.stateManager.getChangedFiles(remoteFiles, {
+			filter,
+			mapper: this.pathMapper
+		}));
+		return { changes, repositoryBytes };
+	}
+
+	private tracksCopiedFiles(): boolean {
+		return Object.values(this.stateManager.getCurrentState().files).some(file => !!file.source);
+	}
+
+	// The compare API reports no file modes, so the folders of newly added
+	// paths are listed to spot symlinks and submodules among them.
+	private async addsLinkedEntries(changes: FileChange[], headCommitSHA: string): Promise<boolean> {
+		const added = changes.filter(change => change.changeType === "added");
+		const addedPaths = new Set(added.map(change => change.path));
+		const folders = new Set(added.map(change => change.path.substring(0, Math.max(change.path.lastIndexOf("/"), 0))));
+		if (folders.size > MAX_FOLDERS_TO_CHECK) {
+			// One full tree listing is cheaper than this many folder listings
+			return true;
+		}
+		for (const folder of folders) {
+			const entries = await this.githubAPI.listDirectory(headCommitSHA, folder);
+			if (entries.some(entry => addedPaths.has(entry.path) && isLinkedEntry(entry))) {
+				return true;
+			}
+		}
+		return false;
+	}
+
+	// Combines the include/exclude settings with the repository's ignore
+	// file at the commit being synced.
+	private async buildPathFilter(headCommitSHA: string): Promise<PathFilter> {
+		const ignoreText = await this.githubAPI.getOptionalTextFile(IGNORE_FILE, headCommitSHA);
+		const ignorePatterns = ignoreText ? PathFilter.parsePatterns(ignoreText) : [];
+		if (ignorePatterns.length > 0) {
+			this.logger.info(`Loaded ${ignorePatterns.length} pattern(s) from ${IGNORE_FILE}`);
+		}
+		return new PathFilter(
+			this.profile.includePatterns,
+			this.profile.excludePatterns.concat(ignorePatterns)
+		);
+	}
+
+	private getFilterSignature(): string {
+		return JSON.stringify({
+			include: this.profile.includePatterns,
+			exclude: this.profile.excludePatterns,
+			mapping: this.pathMapper.signature,
+			// Raising the limit must bring previously skipped objects back in
+			lfsLimit: this.settings.maxLfsFileMB,
+			symlinks: this.settings.symlinkHandling,
+			submodules: this.settings.syncSubmodules
+		});
+	}
+
+	// Downloads a change's content. Changes with the same blob SHA share one
+	// download, which is released once the last of them has it.
+	private downloadBlob(change: FileChange): Promise<DownloadedFile> {
+		let download = this.blobDownloads.get(change.sha);
+		if (!download) {
+			download = this.fetchBlob(change);
+			this.blobDownloads.set(change.sha, download);
+		}
+		const users = (this.blobUsers.get(change.sha) ?? 1) - 1;
+		if (users > 0) {
+			this.blobUsers.set(change.sha, users);
+		} else {
+			this.blobUsers.delete(change.sha);
+			this.blobDownloads.delete(change.sha);
+		}
+		return download;
+	}
+
+	// Blob cache first, then the repository archive, then the network
+	private async fetchBlob(change: FileChange): Promise<DownloadedFile> {
+		const cached = await this.blobCache.get(change.sha);
+		if (cached) {
+			return cached;
+		}
+		// Symlink copies and submodule files are read from their source
+		const downloaded = await this.readFromArchive(change) ??
+			await this.treeExpander.getAPI(change.source).getFileContent(
+				change.source?.path ?? change.path,
+				change.sha,
+				this.settings.maxLfsFileMB * 1024 * 1024
+			);
+		await this.blobCache.put(change.sha, downloaded);
+		return downloaded;
+	}
+
+	// A first sync, or one downloading many files, fetches the repository
+	// archive once instead of every file on its own. Returns null when the
+	// per-file path is used, including when the archive can't be fetched.
+	private async openArchive(
+		changes: FileChange[],
+		commitSHA: string,
+		repositoryBytes?: number
+	): Promise<RepositoryArchive | null> {
+		// Submodule files live in other repositories' archives
+		const downloads = changes.filter(change =>
+			change.changeType !== "deleted" && !change.source?.repository && !this.blobCache.has(change.sha));
+		const firstSync = Object.keys(this.stateManager.getCurrentState().files).length === 0;
+		if (downloads.length < (firstSync ? ARCHIVE_MIN_FILES_FIRST_SYNC : ARCHIVE_MIN_FILES)) {
+			return null;
+		}
+		// Compare-based syncs don't know the repository size, which may be far
+		// larger than the files they download
+		const maxBytes = Platform.isMobile ? ARCHIVE_MAX_REPOSITORY_BYTES_MOBILE : ARCHIVE_MAX_REPOSITORY_BYTES;
+		if (repositoryBytes === undefined || repositoryBytes > maxBytes) {
+			this.logger.info("Repository size unknown or too large for the archive", { repositoryBytes, maxBytes });
+			return null;
+		}
+		// The archive holds the whole repository, which can be far larger than
+		// a synced subfolder or the files the filters let through
+		if (this.pathMapper.isPartial ||
+			this.profile.includePatterns.length > 0 ||
+			this.profile.excludePatterns.length > 0 ||
+			await this.githubAPI.getOptionalTextFile(IGNORE_FILE, commitSHA) !== null) {
+			return null;
+		}
+
+		try {
+			const archive = new RepositoryArchive(await this.githubAPI.downloadArchive(commitSHA));
+			this.logger.info(`Reading ${downloads.length} file(s) from the repository archive`, {
+				entries: archive.fileCount
+			});
+			return archive;
+		} catch (error) {
+			this.logger.warn("Repository archive unavailable - downloading files one by one", error);
+			return null;
+		}
+	}
+
+	// The change's bytes from the repository archive, or null when the file
+	// has to be downloaded on its own: not in the archive, a Git LFS pointer,
+	// or content that differs from the tree (such as export-subst files).
+	private async readFromArchive(change: FileChange): Promise<DownloadedFile | null> {
+		if (!this.archive || change.source?.repository) {
+			return null;
+		}
+		const path = change.source?.path ?? change.path;
+		let content: ArrayBuffer | null;
+		try {
+			content = this.archive.read(path);
+		} catch (error) {
+			this.logger.warn(`Cannot read ${path} from the repository archive`, error);
+			return null;
+		}
+		if (!content || parseLfsPointer(content) || await computeGitBlobSha(content) !== change.sha) {
+			return null;
+		}
+		return { content };
+	}
+
+	// "up to 120 API requests, 4800 of 5000 left" for the sync Notice
+	private describeBudget(changes: FileChange[]): string {
+		const requests = `up to ${estimateRequests(changes)} API request(s)`;
+		const rateLimit = this.githubAPI.rateLimit;
+		return rateLimit ? `${requests}, ${rateLimit.remaining} of ${rateLimit.limit} left` : requests;
+	}
+
 	private async applyChanges(
 		changes: FileChange[],
 		result: SyncResult,
-		showProgress: boolean
-	): Promise<void> {
+		snapshot?: SyncSnapshot
+	): Promise<FileChange[]> {
 		const BATCH_SIZE = 10;
 		let processed = 0;
+		let lastCheckpoint = 0;
+
+		// Renames go last: Obsidian rewrites links to a moved file, and notes
+		// updated by this sync should already hold their new content by then.
+		changes = changes.filter(change => change.changeType !== "renamed")
+			.concat(changes.filter(change => change.changeType === "renamed"));
+		this.reportProgress("applying", 0, changes.length);
+
+		this.blobUsers.clear();
+		for (const change of changes) {
+			if (change.changeType !== "deleted") {
+				this.blobUsers.set(change.sha, (this.blobUsers.get(change.sha) ?? 0) + 1);
+			}
+		}
+		const duplicates = changes.filter(change => change.changeType !== "deleted").length - this.blobUsers.size;
+		if (duplicates > 0) {
+			this.logger.info(`${duplicates} file(s) share content with another file and are downloaded once`);
+		}
 
 		for (let i = 0; i < changes.length; i += BATCH_SIZE) {
+			// Writes already started are allowed to finish
+			if (this.cancelRequested) {
+				this.logger.info(`Sync cancelled with ${changes.length - processed} file(s) left`);
+				result.cancelled = true;
+				break;
+			}
 			const batch = changes.slice(i, i + BATCH_SIZE);
+			const held: FileChange[] = [];
 			
 			await Promise.all(
-				batch.map(change => this.applyFileChange(change, result))
+				batch.map(change => this.applyFileChange(change, result, snapshot).catch(error => {
+					if (!(error instanceof RateLimitError)) throw error;
+					held.push(change);
+					result.deferredUntil = Math.max(result.deferredUntil ?? 0, error.resetAt);
+				}))
 			);
 
+			if (held.length > 0) {
+				// The journal keeps what is left for when the limit resets
+				const pending = held.concat(changes.slice(i + BATCH_SIZE));
+				this.logger.warn(`GitHub API rate limit reached with ${pending.length} file(s) left`);
+				await this.saveCheckpoint(pending, result, snapshot);
+				return changes.slice(0, i + batch.length).filter(change => held.indexOf(change) === -1);
+			}
+
 			processed += batch.length;
-			
-			if (showProgress && changes.length > 20) {
-				new Notice(`Progress: ${processed}/${changes.length} files`, 2000);
+			this.reportProgress("applying", processed, changes.length);
+
+			if (processed - lastCheckpoint >= CHECKPOINT_INTERVAL && processed < changes.length) {
+				await this.saveCheckpoint(changes.slice(processed), result, snapshot);
+				lastCheckpoint = processed;
 			}
 		}
+		return changes.slice(0, processed);
+	}
+
+	// Persists the files synced so far together with the changes still
+	// pending, so an interrupted sync resumes here on the next run.
+	private async saveCheckpoint(
+		pending: FileChange[],
+		result: SyncResult,
+		snapshot?: SyncSnapshot
+	): Promise<void> {
+		const state = this.stateManager.getCurrentState();
+		if (state.journal) {
+			state.journal.pending = pending;
+			state.journal.partial = state.journal.partial || result.errors.length > 0;
+		}
+		try {
+			await this.stateManager.saveState(state);
+			await snapshot?.commit();
+		} catch (error) {
+			// The sync can still finish; only the resume point is stale.
+			this.logger.warn("Failed to save sync checkpoint", error);
+		}
 	}
 
 	private async applyFileChange(
 		change: FileChange,
-		result: SyncResult
+		result: SyncResult,
+		snapshot?: SyncSnapshot
 	): Promise<void> {
 		try {
-			this.logger.debug(`Processing file: ${change.path}`, { changeType: change.changeType });
+			const localPath = this.pathMapper.toLocal(change.path);
+			this.logger.debug(`Processing file: ${change.path}`, { changeType: change.changeType, localPath });
 			
 			if (change.changeType === "deleted") {
+				if (await this.keepLocalEditsOnRemoval(change.path, localPath, result)) {
+					return;
+				}
 				// Handle file deletion
-				const deleted = await this.fileManager.deleteFile(change.path);
+				await snapshot?.capture(localPath);
+				const deleted = await this.fileManager.deleteFile(localPath);
 				if (deleted) {
 					this.logger.debug(`File deleted from vault: ${change.path}`);
 					// Remove from sync state
@@ -266,37 +969,494 @@ export class SyncEngine {
 				return;
 			}
 			
-			// Download file content - pass SHA for large file support
-			const content = await this.githubAPI.getFileContent(change.path, change.sha);
+			const owner = this.findPathOwner?.(this.profile.id, localPath);
+			if (owner) {
+				throw new Error(`${localPath} is already synced by profile "${owner}"`);
+			}
+
+			if (change.changeType === "renamed" && await this.moveRenamedFile(change, localPath, result, snapshot) &&
+				this.stateManager.getFileState(change.path)?.sha === change.sha) {
+				result.filesRenamed++;
+				this.logger.info(`Successfully renamed: ${change.previousPath} -> ${change.path}`);
+				return;
+			}
+
+			// A moved file whose content also changed upstream is updated like
+			// any other modified file; an added file may land on an untracked one
+			if (!(await this.resolveLocalEdits(change, localPath, result, snapshot))) {
+				return;
+			}
+
+			// Download file content, shared with other paths holding the same blob
+			let downloaded: DownloadedFile;
+			try {
+				downloaded = await this.downloadBlob(change);
+			} catch (error) {
+				if (error instanceof LfsObjectSkippedError) {
+					// Left untracked so a later sync with a higher limit pulls it
+					this.logger.warn(`Skipped large Git LFS object: ${change.path}`, { size: error.size });
+					result.filesSkipped++;
+					result.skippedPaths.push(change.path);
+					return;
+				}
+				throw error;
+			}
+			const content = downloaded.content;
 			this.logger.debug(`Downloaded ${change.path}, size: ${content.byteLength} bytes`);
 			
 			// Create or update file in vault
-			await this.fileManager.createOrUpdateFile(change.path, content);
-			this.logger.debug(`File written to vault: ${change.path}`);
+			await snapshot?.capture(localPath);
+			await this.fileManager.createOrUpdateFile(localPath, content);
+			this.logger.debug(`File written to vault: ${localPath}`);
 			
 			// Update sync state
-			this.stateManager.updateFileState(change.path, change.sha);
+			this.stateManager.updateFileState(change.path, change.sha, {
+				lfsOid: downloaded.lfs?.oid,
+				mode: change.mode,
+				source: change.source
+			});
 
 			// Update counters
 			if (change.changeType === "added") {
 				result.filesAdded++;
 			} else if (change.changeType === "modified") {
 				result.filesModified++;
+			} else if (change.changeType === "renamed") {
+				result.filesRenamed++;
 			}
 
 			this.logger.info(`Successfully synced: ${change.path}`);
 
 		} catch (error) {
+			// Not a failure of this file; applyChanges defers it
+			if (error instanceof RateLimitError) {
+				throw error;
+			}
 			this.logger.error(`Failed to sync file: ${change.path}`, error);
+			// A corrupt download leaves the file untracked, so the next sync
+			// fetches it again
 			result.errors.push({
 				path: change.path,
 				message: error.message,
-				type: "file"
+				type: error instanceof ContentIntegrityError ? "integrity" : "file"
 			});
 			console.error(`Failed to sync file ${change.path}:`, error);
 		}
 	}
 
+	// Moves the old file to the new path and carries its sync state over.
+	// Returns false when the old file is missing or the new path is already
+	// taken; the old file is then removed (unless it was edited locally) and
+	// the new path downloaded.
+	private async moveRenamedFile(
+		change: FileChange,
+		localPath: string,
+		result: SyncResult,
+		snapshot?: SyncSnapshot
+	): Promise<boolean> {
+		const previousPath = change.previousPath ?? "";
+		const previousLocalPath = this.pathMapper.toLocal(previousPath);
+		const tracked = this.stateManager.getFileState(previousPath);
+		const canMove = !!tracked &&
+			await this.fileManager.fileExists(previousLocalPath) &&
+			!(await this.fileManager.fileExists(localPath));
+
+		await snapshot?.capture(previousLocalPath);
+		if (!tracked || !canMove) {
+			this.logger.debug(`Cannot move ${previousPath} to ${change.path} - downloading instead`);
+			if (!(await this.keepLocalEditsOnRemoval(previousPath, previousLocalPath, result))) {
+				await this.fileManager.deleteFile(previousLocalPath);
+			}
+			this.stateManager.removeFileState(previousPath);
+			return false;
+		}
+
+		// An edited file is moved as it is. Its state keeps the SHA of the last
+		// pull, so resolveLocalEdits still sees the edit at the new path.
+
+		await snapshot?.capture(localPath);
+		await this.fileManager.renameFile(previousLocalPath, localPath);
+		this.stateManager.removeFileState(previousPath);
+		this.stateManager.updateFileState(change.path, tracked.sha, {
+			lfsOid: tracked.lfsOid,
+			mode: change.mode ?? tracked.mode,
+			source: change.source
+		});
+		return true;
+	}
+
+	// Compares the bytes on disk with the SHA recorded at the last pull. If the
+	// file was edited locally, or is an untracked file in the way of the remote
+	// one, applies the configured conflict policy and records the conflict.
+	// Returns false when the remote version must not be written over the
+	// local file.
+	private async resolveLocalEdits(
+		change: FileChange,
+		localPath: string,
+		result: SyncResult,
+		snapshot?: SyncSnapshot
+	): Promise<boolean> {
+		const tracked = this.stateManager.getFileState(change.path);
+		const localContent = await this.fileManager.readFile(localPath);
+		if (!localContent) {
+			return true;
+		}
+
+		if (tracked && await this.matchesTracked(localContent, tracked)) {
+			return true;
+		}
+		const localSha = await computeGitBlobSha(localContent);
+		const lfsOid = localSha === change.sha ? undefined : await this.matchingLfsOid(change, localContent, tracked);
+		if (localSha === change.sha || lfsOid) {
+			// Local file already matches the new remote version (or was written
+			// by an interrupted sync) — nothing to download.
+			this.logger.info(`Local file already matches remote: ${change.path}`);
+			this.stateManager.updateFileState(change.path, change.sha, {
+				lfsOid,
+				mode: change.mode,
+				source: change.source
+			});
+			if (change.changeType === "added") {
+				result.filesAdded++;
+			} else {
+				result.filesModified++;
+			}
+			return false;
+		}
+
+		const resolution = this.settings.conflictResolution;
+		this.logger.warn(`Local edits detected: ${change.path}`, {
+			localSha,
+			trackedLfsOid: tracked?.lfsOid,
+			trackedSha: tracked?.sha,
+			remoteSha: change.sha,
+			resolution
+		});
+
+		if (resolution === "keep-local") {
+			// Record the remote SHA so the same upstream change isn't reported
+			// again; a later upstream change will still be compared against it.
+			this.stateManager.updateFileState(change.path, change.sha, {
+				lfsOid: tracked?.lfsOid,
+				mode: change.mode,
+				source: change.source
+			});
+			result.conflicts.push({ path: change.path, resolution });
+			return false;
+		}
+
+		if (resolution === "keep-both") {
+			const conflictPath = await this.fileManager.getConflictPath(localPath);
+			await snapshot?.capture(conflictPath);
+			await this.fileManager.createOrUpdateFile(conflictPath, localContent);
+			this.logger.info(`Local version saved to ${conflictPath}`);
+			result.conflicts.push({ path: change.path, resolution, conflictPath });
+			return true;
+		}
+
+		result.conflicts.push({ path: change.path, resolution });
+		return true;
+	}
+
+	// When the incoming blob is a Git LFS pointer and the local bytes are the
+	// object it points to, returns the object's SHA-256. An LFS file written
+	// by an interrupted sync never matches the pointer's blob SHA otherwise.
+	private async matchingLfsOid(
+		change: FileChange,
+		localContent: ArrayBuffer,
+		tracked?: FileSyncState
+	): Promise<string | undefined> {
+		// Submodule blobs live in other repositories, and larger blobs aren't
+		// pointers. Without a size (compare API) only files already tracked as
+		// LFS are checked, so no large blob is fetched just to find out.
+		const mayBePointer = change.size !== undefined ? change.size <= MAX_POINTER_BYTES : !!tracked?.lfsOid;
+		if (change.source?.repository || !mayBePointer) {
+			return undefined;
+		}
+		let pointer;
+		try {
+			pointer = parseLfsPointer(new TextEncoder().encode(await this.githubAPI.getBlobText(change.sha)).buffer);
+		} catch (error) {
+			if (error instanceof RateLimitError) {
+				throw error;
+			}
+			this.logger.warn(`Cannot read blob ${change.sha} of ${change.path}`, error);
+			return undefined;
+		}
+		if (!pointer || pointer.size !== localContent.byteLength) {
+			return undefined;
+		}
+		return await computeSha256(localContent) === pointer.oid ? pointer.oid : undefined;
+	}
+
+	// Checks a file about to be removed because it was deleted or renamed
+	// upstream. Returns true when it was edited locally (or never synced) and
+	// the conflict policy keeps it; it is then left in place, untracked.
+	private async keepLocalEditsOnRemoval(
+		path: string,
+		localPath: string,
+		result: SyncResult
+	): Promise<boolean> {
+		const tracked = this.stateManager.getFileState(path);
+		const localContent = await this.fileManager.readFile(localPath);
+		if (!localContent || (tracked && await this.matchesTracked(localContent, tracked))) {
+			return false;
+		}
+
+		const resolution = this.settings.conflictResolution;
+		this.logger.warn(`Local edits to a file removed upstream: ${path}`, { resolution });
+		result.conflicts.push({ path, resolution });
+		if (resolution === "take-remote") {
+			return false;
+		}
+		this.stateManager.removeFileState(path);
+		return true;
+	}
+
+	// True when local bytes are what the last sync wrote. LFS files are
+	// tracked by their pointer blob, so their bytes are checked against the
+	// object's SHA-256 instead.
+	private async matchesTracked(content: ArrayBuffer, tracked: FileSyncState): Promise<boolean> {
+		if (tracked.lfsOid) {
+			return (await computeSha256(content)) === tracked.lfsOid;
+		}
+		return (await computeGitBlobSha(content)) === tracked.sha;
+	}
+
+	private async saveSnapshot(snapshot: SyncSnapshot): Promise<void> {
+		try {
+			await snapshot.commit();
+			await this.snapshots.prune(
+				this.settings.snapshotsToKeep,
+				this.settings.maxSnapshotMB * 1024 * 1024
+			);
+		} catch (error) {
+			// The sync itself succeeded; only the undo point is missing.
+			this.logger.warn("Failed to save sync snapshot", error);
+		}
+	}
+
+	// Restores every file the most recent sync wrote or deleted and rewinds
+	// the sync state to what it was before that sync.
+	async revertLastSync(): Promise<boolean> {
+		if (this.isSyncing) {
+			this.notify("Sync already in progress");
+			return false;
+		}
+
+		this.isSyncing = true;
+		try {
+			const latest = await this.snapshots.getLatest();
+			if (!latest) {
+				this.notify("No sync to revert");
+				return false;
+			}
+
+			this.logger.info("=== Reverting sync ===", latest);
+			const previousState = await this.snapshots.restore(
+				latest.id,
+				(localPath, content) => this.fileManager.createOrUpdateFile(localPath, content),
+				localPath => this.fileManager.deleteFile(localPath)
+			);
+			// Reverting ends any interrupted sync instead of resuming it
+			delete previousState.journal;
+			await this.stateManager.saveState(previousState);
+
+			const when = new Date(latest.createdAt).toLocaleString();
+			this.notify(`Reverted sync from ${when} (${latest.fileCount} file${latest.fileCount > 1 ? "s" : ""})`, 5000);
+			return true;
+		} catch (error) {
+			this.logger.error("Revert failed", error);
+			this.notify(`Revert failed: ${error.message}`, 10000);
+			return false;
+		} finally {
+			this.endSync();
+		}
+	}
+
+	// Commits local edits, additions and deletions (relative to the sync
+	// state) on top of the branch head and fast-forwards the branch. Refuses
+	// when GitHub has commits the vault hasn't pulled yet, so nothing upstream
+	// is ever overwritten.
+	async performPush(showProgress = true): Promise<PushResult> {
+		this.logger.info("=== Push Started ===", { profile: this.profile.name });
+		const result: PushResult = {
+			success: true,
+			filesAdded: 0,
+			filesModified: 0,
+			filesDeleted: 0,
+			errors: []
+		};
+
+		if (!this.githubAPI) {
+			const error = "Plugin not configured. Please set repository URL and Personal Access Token in settings.";
+			this.logger.error(error);
+			this.notify(error, 10000);
+			return { ...result, success: false, errors: [{ path: "", message: error, type: "unknown" }] };
+		}
+
+		if (this.isSyncing) {
+			this.logger.warn("Sync already in progress");
+			this.notify("Sync already in progress");
+			return { ...result, success: false, errors: [{ path: "", message: "Sync already in progress", type: "unknown" }] };
+		}
+
+		this.isSyncing = true;
+		try {
+			// Step 1: The push commit must sit directly on the last synced commit
+			this.logger.info("Step 1: Checking branch head against sync state");
+			await this.stateManager.loadState();
+			if (!this.githubAPI.tracksBranch) {
+				throw new Error("This profile is pinned to a tag or commit. Pushing only works when tracking a branch.");
+			}
+			const state = this.stateManager.getCurrentState();
+			if (!state.lastCommitSHA || state.journal) {
+				throw new Error("The last pull did not finish cleanly. Sync from GitHub first, then push.");
+			}
+			const headCommitSHA = await this.githubAPI.resolveCommitSHA();
+			if (headCommitSHA !== state.lastCommitSHA) {
+				this.logger.warn("Remote branch moved ahead of the vault", {
+					headCommitSHA,
+					lastCommitSHA: state.lastCommitSHA
+				});
+				throw new Error("GitHub has commits that aren't in this vault yet. Sync from GitHub first, then push.");
+			}
+
+			// Step 2: Find local changes
+			this.logger.info("Step 2: Finding local changes");
+			const filter = await this.buildPathFilter(headCommitSHA);
+			const changes = await this.findLocalChanges(filter);
+			if (changes.length === 0) {
+				this.logger.info("No local changes to push");
+				if (showProgress) {
+					this.notify("Nothing to push");
+				}
+				return result;
+			}
+			if (showProgress) {
+				this.notify(`Pushing ${changes.length} file${changes.length > 1 ? "s" : ""}...`);
+			}
+
+			// Step 3: Upload blobs. Any failure aborts the push before a commit exists.
+			this.logger.info("Step 3: Uploading blobs");
+			const entries: GitHubTreeEntry[] = [];
+			const BATCH_SIZE = 10;
+			for (let i = 0; i < changes.length; i += BATCH_SIZE) {
+				const batch = changes.slice(i, i + BATCH_SIZE);
+				await Promise.all(batch.map(async change => {
+					// Keep executable bits; only new files get the plain file mode
+					const mode = this.stateManager.getFileState(change.path)?.mode === "100755" ? "100755" : "100644";
+					if (change.changeType === "deleted") {
+						entries.push({ path: change.path, mode, type: "blob", sha: null });
+						return;
+					}
+					const content = await this.fileManager.readFile(this.pathMapper.toLocal(change.path));
+					if (!content) {
+						throw new Error(`${change.path} disappeared while pushing`);
+					}
+					change.sha = await this.githubAPI.createBlob(content);
+					entries.push({ path: change.path, mode, type: "blob", sha: change.sha });
+				}));
+			}
+
+			// Step 4: Create tree and commit, then fast-forward the branch
+			this.logger.info("Step 4: Creating commit");
+			const added = changes.filter(c => c.changeType === "added").length;
+			const modified = changes.filter(c => c.changeType === "modified").length;
+			const deleted = changes.filter(c => c.changeType === "deleted").length;
+			const baseTreeSHA = await this.githubAPI.getCommitTreeSHA(headCommitSHA);
+			const treeSHA = await this.githubAPI.createTree(baseTreeSHA, entries);
+			const commitSHA = await this.githubAPI.createCommit(
+				`Update from Obsidian: ${added} added, ${modified} modified, ${deleted} deleted`,
+				treeSHA,
+				headCommitSHA
+			);
+			try {
+				await this.githubAPI.fastForwardBranch(commitSHA);
+			} catch (refError) {
+				this.logger.error("Branch update rejected", refError);
+				throw new Error("GitHub branch moved while pushing. Sync from GitHub first, then push again.");
+			}
+
+			// Step 5: Record the pushed content so the next pull doesn't re-download it
+			this.logger.info("Step 5: Saving sync state", { commitSHA });
+			for (const change of changes) {
+				if (change.changeType === "deleted") {
+					this.stateManager.removeFileState(change.path);
+				} else {
+					this.stateManager.updateFileState(change.path, change.sha);
+				}
+			}
+			state.lastCommitSHA = commitSHA;
+			await this.stateManager.saveState(state);
+
+			result.filesAdded = added;
+			result.filesModified = modified;
+			result.filesDeleted = deleted;
+			result.commitSHA = commitSHA;
+			this.logger.info("=== Push Complete ===", { commitSHA, added, modified, deleted });
+			if (showProgress) {
+				this.notify(`Push complete! Added: ${added}, Modified: ${modified}, Deleted: ${deleted}`, 5000);
+			}
+		} catch (error) {
+			this.logger.error("Push failed with error", error);
+			result.success = false;
+			result.errors.push({ path: "", message: error.message, type: "unknown" });
+			if (showProgress) {
+				this.notify(`Push failed: ${error.message}`, 10000);
+			}
+		} finally {
+			this.endSync();
+			this.logger.info("Push process ended");
+		}
+
+		return result;
+	}
+
+	// Local changes relative to the sync state, as repository paths. Tracked
+	// files are hashed to spot edits; untracked files inside the profile's
+	// scope are new. Conflict copies and files owned by another profile are
+	// never pushed.
+	private async findLocalChanges(filter: PathFilter): Promise<FileChange[]> {
+		const tracked = this.stateManager.getCurrentState().files;
+		const changes: FileChange[] = [];
+
+		for (const [path, fileState] of Object.entries(tracked)) {
+			if (!this.pathMapper.isInScope(path) || !filter.matches(path)) continue;
+			// Symlink copies and submodule files are not stored at this path upstream
+			if (fileState.source) continue;
+
+			const content = await this.fileManager.readFile(this.pathMapper.toLocal(path));
+			if (!content) {
+				changes.push({ path, sha: fileState.sha, changeType: "deleted" });
+				continue;
+			}
+			if (await this.matchesTracked(content, fileState)) continue;
+			if (fileState.lfsOid) {
+				// Uploading the bytes as a plain blob would replace the pointer
+				this.logger.warn(`Skipping edited Git LFS file - pushing LFS objects is not supported: ${path}`);
+				continue;
+			}
+			const sha = await computeGitBlobSha(content);
+			changes.push({ path, sha, changeType: "modified", size: content.byteLength });
+		}
+
+		for (const file of this.app.vault.getFiles()) {
+			const remotePath = this.pathMapper.toRemote(file.path);
+			if (remotePath === null || tracked[remotePath] || !filter.matches(remotePath)) continue;
+			if (CONFLICT_COPY_PATTERN.test(file.path)) continue;
+			if (this.findPathOwner?.(this.profile.id, file.path)) continue;
+			changes.push({ path: remotePath, sha: "", changeType: "added", size: file.stat.size });
+		}
+
+		this.logger.info("Local changes found", {
+			added: changes.filter(c => c.changeType === "added").length,
+			modified: changes.filter(c => c.changeType === "modified").length,
+			deleted: changes.filter(c => c.changeType === "deleted").length
+		});
+		return changes;
+	}
+
 	async testConnection(): Promise<boolean> {
 		try {
 			if (!this.githubAPI) {
@@ -315,7 +1475,20 @@ export class SyncEngine {
 		}
 	}
 
-	async getRateLimit(): Promise<{ limit: number; remaining: number; reset: number }> {
+	// Which server the profile talks to; null when it can't be reached
+	async getServerInfo(): Promise<GitHubServerInfo | null> {
+		try {
+			if (!this.githubAPI) {
+				return null;
+			}
+			return await this.githubAPI.getServerInfo();
+		} catch (error) {
+			this.logger.error("Failed to read GitHub server info", error);
+			return null;
+		}
+	}
+
+	async getRateLimit(): Promise<RateLimitStatus> {
 		try {
 			if (!this.githubAPI) {
 				return { limit: 0, remaining: 0, reset: 0 };
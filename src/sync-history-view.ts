@@ -0,0 +1,150 @@
+import { ItemView, TFile, WorkspaceLeaf } from "obsidian";
+import { SyncHistoryEntry, SyncTrigger } from "./types";
+import { SyncHistory } from "./sync-history";
+import { CHANGE_LABELS } from "./sync-preview-modal";
+
+export const SYNC_HISTORY_VIEW_TYPE = "github-pull-sync-history";
+
+const TRIGGER_LABELS: Record<SyncTrigger, string> = {
+	manual: "Manual",
+	preview: "Preview",
+	launch: "On launch",
+	interval: "Interval",
+	focus: "On focus",
+	resume: "Resumed"
+};
+
+// Sidebar view listing recorded syncs, newest first. Each sync expands to
+// the files it touched; files still in the vault open on click.
+export class SyncHistoryView extends ItemView {
+	private history: SyncHistory;
+	private unsubscribe: (() => void) | null = null;
+
+	constructor(leaf: WorkspaceLeaf, history: SyncHistory) {
+		super(leaf);
+		this.history = history;
+	}
+
+	getViewType(): string {
+		return SYNC_HISTORY_VIEW_TYPE;
+	}
+
+	getDisplayText(): string {
+		return "Sync history";
+	}
+
+	getIcon(): string {
+		return "history";
+	}
+
+	async onOpen(): Promise<void> {
+		this.unsubscribe = this.history.onChange(() => this.render());
+		this.render();
+	}
+
+	async onClose(): Promise<void> {
+		this.unsubscribe?.();
+		this.unsubscribe = null;
+	}
+
+	private render(): void {
+		const { contentEl } = this;
+		contentEl.empty();
+		contentEl.addClass("github-pull-history");
+
+		const header = contentEl.createDiv({ cls: "github-pull-history-header" });
+		header.createEl("h4", { text: "Sync history" });
+		const clearButton = header.createEl("button", { text: "Clear" });
+		clearButton.addEventListener("click", () => void this.history.clear());
+
+		const entries = this.history.getEntries();
+		if (entries.length === 0) {
+			contentEl.createEl("p", { text: "No syncs recorded yet.", cls: "github-pull-progress" });
+			return;
+		}
+
+		for (const entry of entries) {
+			this.renderEntry(contentEl, entry);
+		}
+	}
+
+	private renderEntry(containerEl: HTMLElement, entry: SyncHistoryEntry): void {
+		const details = containerEl.createEl("details", { cls: "github-pull-history-entry" });
+		if (!entry.success && !entry.cancelled && !entry.deferredUntil) {
+			details.addClass("github-pull-history-failed");
+		}
+
+		const summary = details.createEl("summary");
+		summary.createSpan({ text: new Date(entry.startedAt).toLocaleString() });
+		let trigger = entry.resumed ? `${TRIGGER_LABELS[entry.trigger]}, resumed` : TRIGGER_LABELS[entry.trigger];
+		if (entry.cancelled) {
+			trigger += ", cancelled";
+		} else if (entry.deferredUntil) {
+			trigger += ", paused by rate limit";
+		}
+		summary.createSpan({ text: ` · ${entry.profileName} · ${trigger}`, cls: "github-pull-progress" });
+		summary.createDiv({ text: this.describeCounts(entry), cls: "github-pull-progress" });
+
+		const commits = entry.toCommit
+			? `${entry.fromCommit ? entry.fromCommit.substring(0, 7) : "full sync"} → ${entry.toCommit.substring(0, 7)}`
+			: "No new commits";
+		const seconds = ((entry.finishedAt - entry.startedAt) / 1000).toFixed(1);
+		details.createDiv({ text: `${commits} · ${seconds}s`, cls: "github-pull-progress" });
+
+		if (entry.files.length > 0) {
+			const list = details.createEl("ul", { cls: "github-pull-history-files" });
+			for (const file of entry.files) {
+				const item = list.createEl("li", { cls: `github-pull-preview-${file.changeType}` });
+				item.createSpan({ text: `${CHANGE_LABELS[file.changeType]}: `, cls: "github-pull-progress" });
+				if (file.previousPath) {
+					item.createSpan({ text: `${file.previousPath} → ` });
+				}
+				this.renderPath(item, file.path, file.changeType !== "deleted");
+			}
+		}
+
+		for (const conflict of entry.conflicts) {
+			const item = details.createDiv({ cls: "github-pull-history-conflict" });
+			item.createSpan({ text: "Conflict: " });
+			this.renderPath(item, conflict.path, true);
+			if (conflict.conflictPath) {
+				item.createSpan({ text: " — local copy " });
+				this.renderPath(item, conflict.conflictPath, true);
+			}
+		}
+
+		for (const error of entry.errors) {
+			details.createDiv({
+				text: error.path ? `Error: ${error.path}: ${error.message}` : `Error: ${error.message}`,
+				cls: "github-pull-history-error"
+			});
+		}
+	}
+
+	private describeCounts(entry: SyncHistoryEntry): string {
+		const parts = [
+			`Added: ${entry.filesAdded}`,
+			`Modified: ${entry.filesModified}`,
+			`Deleted: ${entry.filesDeleted}`
+		];
+		if (entry.filesRenamed > 0) parts.push(`Renamed: ${entry.filesRenamed}`);
+		if (entry.filesSkipped > 0) parts.push(`Skipped: ${entry.filesSkipped}`);
+		if (entry.conflicts.length > 0) parts.push(`Conflicts: ${entry.conflicts.length}`);
+		if (entry.errors.length > 0) parts.push(`Errors: ${entry.errors.length}`);
+		return parts.join(", ");
+	}
+
+	// Files that still exist are links that open the note
+	private renderPath(containerEl: HTMLElement, path: string, linkIfPresent: boolean): void {
+		const file = linkIfPresent ? this.app.vault.getAbstractFileByPath(path) : null;
+		if (!(file instanceof TFile)) {
+			containerEl.createSpan({ text: path, cls: "github-pull-preview-path" });
+			return;
+		}
+		const link = containerEl.createEl("a", { text: path, href: "#", cls: "github-pull-preview-path" });
+		link.addEventListener("click", event => {
+			event.preventDefault();
+			void this.app.workspace.getLeaf(false).openFile(file);
+		});
+	}
+}
@@ -0,0 +1,78 @@
+import { App } from "obsidian";
+import { SyncHistoryEntry } from "./types";
+import { Logger } from "./logger";
+
+// Oldest entries are dropped past this so the file stays quick to load
+const MAX_ENTRIES = 300;
+
+// Keeps a record of finished syncs for every profile in
+// .obsidian/plugins/<plugin>/sync-history.json, newest first.
+export class SyncHistory {
+	private app: App;
+	private pluginId: string;
+	private logger: Logger;
+	private entries: SyncHistoryEntry[] = [];
+	private listeners = new Set<() => void>();
+	// Syncs of different profiles can finish together; writes go one at a time.
+	private writeQueue: Promise<void> = Promise.resolve();
+
+	constructor(app: App, pluginId: string, logger: Logger) {
+		this.app = app;
+		this.pluginId = pluginId;
+		this.logger = logger;
+	}
+
+	private get historyPath(): string {
+		return `.obsidian/plugins/${this.pluginId}/sync-history.json`;
+	}
+
+	async load(): Promise<void> {
+		try {
+			const parsed = JSON.parse(await this.app.vault.adapter.read(this.historyPath));
+			this.entries = Array.isArray(parsed) ? parsed : [];
+			this.logger.debug("Sync history loaded", { entries: this.entries.length });
+		} catch {
+			// No history yet, or an unreadable file that the next record replaces
+			this.entries = [];
+		}
+		this.notifyListeners();
+	}
+
+	getEntries(): SyncHistoryEntry[] {
+		return this.entries;
+	}
+
+	record(entry: SyncHistoryEntry): Promise<void> {
+		this.entries = [entry, ...this.entries].slice(0, MAX_ENTRIES);
+		this.notifyListeners();
+		return this.enqueueWrite();
+	}
+
+	clear(): Promise<void> {
+		this.entries = [];
+		this.notifyListeners();
+		return this.enqueueWrite();
+	}
+
+	// Returns a function that removes the listener
+	onChange(listener: () => void): () => void {
+		this.listeners.add(listener);
+		return () => this.listeners.delete(listener);
+	}
+
+	private notifyListeners(): void {
+		for (const listener of this.listeners) {
+			listener();
+		}
+	}
+
+	private enqueueWrite(): Promise<void> {
+		this.writeQueue = this.writeQueue
+			.then(() => this.app.vault.adapter.write(this.historyPath, JSON.stringify(this.entries, null, 2)))
+			.catch(error => {
+				// A lost history write must never fail the sync that produced it
+				this.logger.warn("Failed to save sync history", error);
+			});
+		return this.writeQueue;
+	}
+}
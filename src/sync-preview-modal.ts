@@ -0,0 +1,151 @@
+import { App, Modal, Setting } from "obsidian";
+import { FileChange, RateLimitStatus } from "./types";
+import { estimateRequests } from "./rate-limiter";
+
+export const CHANGE_LABELS: Record<FileChange["changeType"], string> = {
+	added: "Added",
+	modified: "Modified",
+	deleted: "Deleted",
+	renamed: "Renamed"
+};
+
+export function formatBytes(bytes: number): string {
+	if (bytes < 1024) return `${bytes} B`;
+	if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+	return `${(bytes / (1024 * 1024)).toFixed(2)} MB`;
+}
+
+// Lists the pending change set and lets the user untick entries before
+// anything is written. Resolves with the ticked changes, or null if the
+// modal is dismissed without confirming.
+export class SyncPreviewModal extends Modal {
+	private changes: FileChange[];
+	private selected: Set<FileChange>;
+	private resolve: (changes: FileChange[] | null) => void;
+	private confirmed = false;
+	private summaryEl: HTMLElement;
+	private rateLimit: RateLimitStatus | null;
+	// Vault path of a repository path, so folder-mapped profiles list vault paths
+	private toLocal: (path: string) => string;
+
+	constructor(
+		app: App,
+		changes: FileChange[],
+		rateLimit: RateLimitStatus | null = null,
+		toLocal: (path: string) => string = path => path
+	) {
+		super(app);
+		this.changes = changes;
+		this.selected = new Set(changes);
+		this.rateLimit = rateLimit;
+		this.toLocal = toLocal;
+	}
+
+	openAndWait(): Promise<FileChange[] | null> {
+		return new Promise(resolve => {
+			this.resolve = resolve;
+			this.open();
+		});
+	}
+
+	onOpen(): void {
+		const { contentEl } = this;
+		contentEl.empty();
+		contentEl.addClass("github-pull-preview");
+
+		contentEl.createEl("h2", { text: "Preview sync" });
+		this.summaryEl = contentEl.createEl("p", { cls: "setting-item-description" });
+
+		const checkboxes: HTMLInputElement[] = [];
+		const listEl = contentEl.createDiv({ cls: "github-pull-preview-list" });
+
+		for (const changeType of ["added", "modified", "renamed", "deleted"] as const) {
+			const group = this.changes.filter(c => c.changeType === changeType);
+			if (group.length === 0) continue;
+
+			listEl.createEl("h4", { text: `${CHANGE_LABELS[changeType]} (${group.length})` });
+			for (const change of group) {
+				const row = listEl.createEl("label", {
+					cls: `github-pull-preview-item github-pull-preview-${changeType}`
+				});
+				const checkbox = row.createEl("input", { type: "checkbox" });
+				checkbox.checked = true;
+				checkbox.addEventListener("change", () => {
+					if (checkbox.checked) {
+						this.selected.add(change);
+					} else {
+						this.selected.delete(change);
+					}
+					this.updateSummary();
+				});
+				checkboxes.push(checkbox);
+
+				const path = this.toLocal(change.path);
+				const pathText = change.previousPath ? `${this.toLocal(change.previousPath)} → ${path}` : path;
+				row.createSpan({ text: pathText, cls: "github-pull-preview-path" });
+				if (change.size !== undefined) {
+					row.createSpan({ text: formatBytes(change.size), cls: "github-pull-progress" });
+				}
+			}
+		}
+
+		const setAll = (checked: boolean) => {
+			for (const checkbox of checkboxes) checkbox.checked = checked;
+			this.selected = new Set(checked ? this.changes : []);
+			this.updateSummary();
+		};
+
+		new Setting(contentEl)
+			.addButton(button => button
+				.setButtonText("Select all")
+				.onClick(() => setAll(true)))
+			.addButton(button => button
+				.setButtonText("Select none")
+				.onClick(() => setAll(false)))
+			.addButton(button => button
+				.setButtonText("Cancel")
+				.onClick(() => this.close()))
+			.addButton(button => button
+				.setButtonText("Apply selected")
+				.setCta()
+				.onClick(() => {
+					this.confirmed = true;
+					this.close();
+				}));
+
+		this.updateSummary();
+	}
+
+	onClose(): void {
+		this.contentEl.empty();
+		this.resolve(this.confirmed ? this.changes.filter(c => this.selected.has(c)) : null);
+	}
+
+	private updateSummary(): void {
+		const chosen = this.changes.filter(c => this.selected.has(c));
+		const downloads = chosen.filter(c => c.changeType !== "deleted");
+		const downloadBytes = downloads.reduce((sum, c) => sum + (c.size ?? 0), 0);
+		// The compare API used by incremental syncs reports no file sizes
+		const unsized = downloads.filter(c => c.size === undefined).length;
+		let download = `${formatBytes(downloadBytes)} to download`;
+		if (unsized === downloads.length && unsized > 0) {
+			download = `${unsized} file(s) of unknown size to download`;
+		} else if (unsized > 0) {
+			download = `${formatBytes(downloadBytes)} plus ${unsized} file(s) of unknown size to download`;
+		}
+		const deletions = chosen.filter(c => c.changeType === "deleted").length;
+		const requests = estimateRequests(chosen);
+		let budget = `Uses up to ${requests} GitHub API request(s)`;
+		if (this.rateLimit) {
+			budget += ` of the ${this.rateLimit.remaining} left until ` +
+				new Date(this.rateLimit.reset * 1000).toLocaleTimeString();
+			if (requests > this.rateLimit.remaining) {
+				budget += "; the rest is synced after the reset";
+			}
+		}
+		this.summaryEl.setText(
+			`${chosen.length} of ${this.changes.length} change(s) selected — ` +
+			`${download}, ${deletions} file(s) to delete. ${budget}.`
+		);
+	}
+}
@@ -0,0 +1,94 @@
+import { Notice } from "obsidian";
+import { GitHubSyncSettings, SyncResult, SyncTrigger } from "./types";
+import { Logger } from "./logger";
+
+export type BackgroundTrigger = Extract<SyncTrigger, "interval" | "focus">;
+
+// Runs syncs nobody explicitly asked for: on a timer and when the app
+// regains focus (desktop) or comes back to the foreground (mobile). Runs
+// are spaced at least minMinutesBetweenSyncs apart, counting manual syncs,
+// and only surface a Notice when something changed or failed.
+export class SyncScheduler {
+	private settings: GitHubSyncSettings;
+	private logger: Logger;
+	private runSync: (trigger: BackgroundTrigger) => Promise<SyncResult[]>;
+	private isBusy: () => boolean;
+	private intervalId: number | null = null;
+	private lastAttemptAt = 0;
+
+	constructor(
+		settings: GitHubSyncSettings,
+		logger: Logger,
+		runSync: (trigger: BackgroundTrigger) => Promise<SyncResult[]>,
+		isBusy: () => boolean
+	) {
+		this.settings = settings;
+		this.logger = logger;
+		this.runSync = runSync;
+		this.isBusy = isBusy;
+	}
+
+	updateSettings(settings: GitHubSyncSettings): void {
+		this.settings = settings;
+		this.restart();
+	}
+
+	restart(): void {
+		this.stop();
+		const minutes = this.settings.syncIntervalMinutes;
+		if (minutes > 0) {
+			this.intervalId = window.setInterval(
+				() => void this.trigger("interval"),
+				minutes * 60 * 1000
+			);
+			this.logger.debug(`Interval sync scheduled every ${minutes} minute(s)`);
+		}
+	}
+
+	stop(): void {
+		if (this.intervalId !== null) {
+			window.clearInterval(this.intervalId);
+			this.intervalId = null;
+		}
+	}
+
+	onAppResumed(): void {
+		if (this.settings.syncOnFocus) {
+			void this.trigger("focus");
+		}
+	}
+
+	private async trigger(trigger: BackgroundTrigger): Promise<void> {
+		if (this.isBusy()) {
+			this.logger.debug(`Background sync (${trigger}) skipped - sync already running`);
+			return;
+		}
+
+		const lastSync = Math.max(
+			this.lastAttemptAt,
+			...this.settings.profiles.map(profile => profile.lastSyncTime)
+		);
+		const spacingMs = this.settings.minMinutesBetweenSyncs * 60 * 1000;
+		if (Date.now() - lastSync < spacingMs) {
+			this.logger.debug(`Background sync (${trigger}) skipped - last sync was too recent`);
+			return;
+		}
+
+		this.lastAttemptAt = Date.now();
+		this.logger.info(`Background sync triggered (${trigger})`);
+		const results = await this.runSync(trigger);
+
+		const changed = results.reduce(
+			(sum, r) => sum + r.filesAdded + r.filesModified + r.filesDeleted + r.filesRenamed, 0
+		);
+		const errors = results.reduce((sum, r) => sum + r.errors.length, 0);
+		const conflicts = results.reduce((sum, r) => sum + r.conflicts.length, 0);
+
+		if (errors > 0) {
+			new Notice(`GitHub Pull: background sync finished with ${errors} error${errors > 1 ? "s" : ""}. See debug logs.`, 8000);
+		} else if (changed > 0 || conflicts > 0) {
+			const conflictText = conflicts > 0 ? `, ${conflicts} conflict${conflicts > 1 ? "s" : ""}` : "";
+			new Notice(`GitHub Pull: ${changed} file${changed > 1 ? "s" : ""} updated${conflictText}`, 4000);
+		}
+	}
+}
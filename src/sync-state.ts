@@ -1,20 +1,23 @@
 import { App, Notice, normalizePath } from "obsidian";
-import { VaultSyncState, GitHubFile, FileChange } from "./types";
+import { VaultSyncState, GitHubFile, GitHubCompareFile, FileChange, FileSyncState } from "./types";
 import { Logger } from "./logger";
+import { PathFilter } from "./path-filter";
+import { PathMapper } from "./path-mapper";
 
 export class SyncStateManager {
 	private state: VaultSyncState;
-	private dataFile = "sync-state.json";
+	private dataFile: string;
 	private app: App;
 	private pluginId: string;
 	private logger: Logger;
 
-	constructor(app: App, pluginId: string, logger: Logger) {
+	constructor(app: App, pluginId: string, logger: Logger, dataFile = "sync-state.json") {
 		this.app = app;
 		this.pluginId = pluginId;
 		this.logger = logger;
+		this.dataFile = dataFile;
 		this.state = this.getEmptyState();
-		this.logger.debug("SyncStateManager initialized");
+		this.logger.debug("SyncStateManager initialized", { dataFile });
 	}
 
 	private getEmptyState(): VaultSyncState {
@@ -33,10 +36,17 @@ export class SyncStateManager {
 		try {
 			raw = await this.app.vault.adapter.read(statePath);
 		} catch {
-			// True "no file yet" case — first run, or user deleted state intentionally.
-			this.logger.info("No existing sync state found, using empty state");
-			this.state = this.getEmptyState();
-			return this.state;
+			// saveState may have been interrupted between removing the old file
+			// and renaming the new one into place; the temp copy is complete.
+			try {
+				raw = await this.app.vault.adapter.read(`${statePath}.tmp`);
+				this.logger.warn("Recovered sync state from unfinished save");
+			} catch {
+				// True "no file yet" case — first run, or user deleted state intentionally.
+				this.logger.info("No existing sync state found, using empty state");
+				this.state = this.getEmptyState();
+				return this.state;
+			}
 		}
 
 		try {
@@ -87,10 +97,15 @@ export class SyncStateManager {
 				// Directory might already exist, ignore error
 			}
 			
-			await this.app.vault.adapter.write(
-				`${pluginDir}/${this.dataFile}`,
-				data
-			);
+			// Write a temp file first and swap it in, so being killed mid-write
+			// never leaves a truncated state file behind.
+			const statePath = `${pluginDir}/${this.dataFile}`;
+			const tempPath = `${statePath}.tmp`;
+			await this.app.vault.adapter.write(tempPath, data);
+			if (await this.app.vault.adapter.exists(statePath)) {
+				await this.app.vault.adapter.remove(statePath);
+			}
+			await this.app.vault.adapter.rename(tempPath, statePath);
 			this.logger.info("Sync state saved", { fileCount: Object.keys(state.files).length });
 		} catch (error) {
 			this.logger.error("Failed to save sync state", error);
@@ -98,14 +113,17 @@ export class SyncStateManager {
 		}
 	}
 
+	// Paths are repository paths; `mapper` locates them in the vault. Tracked
+	// files that `filter` excludes or that fall outside the mapped subfolder
+	// are left alone rather than reported as deleted.
 	async getChangedFiles(
 		remoteFiles: GitHubFile[],
-		options: { skipDeletions?: boolean } = {}
+		options: { filter?: PathFilter; mapper?: PathMapper } = {}
 	): Promise<FileChange[]> {
+		const { filter, mapper } = options;
 		this.logger.debug("Comparing local and remote files", {
 			remoteCount: remoteFiles.length,
-			localCount: Object.keys(this.state.files).length,
-			skipDeletions: !!options.skipDeletions
+			localCount: Object.keys(this.state.files).length
 		});
 
 		const changes: FileChange[] = [];
@@ -124,14 +142,20 @@ export class SyncStateManager {
 				changes.push({
 					path,
 					sha: remoteFile.sha,
-					changeType: "added"
+					changeType: "added",
+					size: remoteFile.size,
+					mode: remoteFile.mode,
+					source: remoteFile.source
 				});
 			} else if (localFile.sha !== remoteFile.sha) {
 				// Modified file
 				changes.push({
 					path,
 					sha: remoteFile.sha,
-					changeType: "modified"
+					changeType: "modified",
+					size: remoteFile.size,
+					mode: remoteFile.mode,
+					source: remoteFile.source
 				});
 			} else {
 				unchangedCandidates.push(remoteFile);
@@ -140,7 +164,9 @@ export class SyncStateManager {
 
 		// Detect locally-deleted-but-tracked files in parallel; re-pull any that are missing on disk
 		const existenceResults = await Promise.all(
-			unchangedCandidates.map(f => this.app.vault.adapter.exists(normalizePath(f.path)))
+			unchangedCandidates.map(f =>
+				this.app.vault.adapter.exists(normalizePath(mapper ? mapper.toLocal(f.path) : f.path))
+			)
 		);
 		for (let i = 0; i < unchangedCandidates.length; i++) {
 			if (!existenceResults[i]) {
@@ -148,25 +174,26 @@ export class SyncStateManager {
 				changes.push({
 					path: f.path,
 					sha: f.sha,
-					changeType: "added"
+					changeType: "added",
+					size: f.size,
+					mode: f.mode,
+					source: f.source
 				});
 			}
 		}
 
 		// Check for deleted files (files in local sync state but not in remote)
 		// Only files that were previously synced from GitHub will be deleted.
-		// Skip this when the remote tree is truncated — missing entries are
-		// likely an artifact of truncation, not real deletions, and we would
-		// otherwise wipe huge swaths of the vault.
-		if (!options.skipDeletions) {
-			for (const [path, localFile] of localFileMap) {
-				if (!remoteFileMap.has(path)) {
-					changes.push({
-						path,
-						sha: localFile.sha,
-						changeType: "deleted"
-					});
-				}
+		// The remote listing is always complete (GitHubAPI walks subtrees when
+		// the recursive tree is truncated), so a missing path is a real deletion.
+		for (const [path, localFile] of localFileMap) {
+			const inScope = (!filter || filter.matches(path)) && (!mapper || mapper.isInScope(path));
+			if (!remoteFileMap.has(path) && inScope) {
+				changes.push({
+					path,
+					sha: localFile.sha,
+					changeType: "deleted"
+				});
 			}
 		}
 
@@ -180,11 +207,108 @@ export class SyncStateManager {
 		return changes;
 	}
 
-	updateFileState(path: string, sha: string): void {
+	// Turns the file list from the compare API into changes against the
+	// local state. Paths whose SHA already matches the state are skipped.
+	getChangesFromCompare(files: GitHubCompareFile[]): FileChange[] {
+		const changes: FileChange[] = [];
+		const deletions: FileChange[] = [];
+
+		for (const file of files) {
+			if (file.status === "unchanged") continue;
+
+			const removedPath =
+				file.status === "removed" ? file.filename :
+				file.status === "renamed" ? file.previous_filename : undefined;
+			if (removedPath) {
+				const tracked = this.state.files[removedPath];
+				if (tracked) {
+					deletions.push({ path: removedPath, sha: tracked.sha, changeType: "deleted" });
+				}
+			}
+			if (file.status === "removed") continue;
+
+			const tracked = this.state.files[file.filename];
+			if (tracked && tracked.sha === file.sha) continue;
+			changes.push({
+				path: file.filename,
+				sha: file.sha,
+				changeType: tracked ? "modified" : "added",
+				previousPath: !tracked && file.status === "renamed" ? file.previous_filename : undefined
+			});
+		}
+
+		// A path can be both vacated and re-filled in one range (a → b, c → a);
+		// the re-filled path must not be deleted after it is downloaded.
+		const written = new Set(changes.map(c => c.path));
+		for (const deletion of deletions) {
+			if (!written.has(deletion.path)) {
+				changes.push(deletion);
+			}
+		}
+
+		this.logger.info("Compare diff complete", {
+			added: changes.filter(c => c.changeType === "added").length,
+			modified: changes.filter(c => c.changeType === "modified").length,
+			deleted: changes.filter(c => c.changeType === "deleted").length,
+			total: changes.length
+		});
+
+		return changes;
+	}
+
+	// Turns a deletion and an addition of the same content into one rename,
+	// so the file is moved instead of deleted and downloaded again. Renames
+	// the compare API reported (previousPath hints) pair up even when the
+	// content changed as well.
+	detectRenames(changes: FileChange[]): FileChange[] {
+		const unpaired = new Map<string, FileChange>();
+		const deletionsBySha = new Map<string, FileChange[]>();
+		for (const change of changes) {
+			if (change.changeType !== "deleted") continue;
+			unpaired.set(change.path, change);
+			deletionsBySha.set(change.sha, (deletionsBySha.get(change.sha) ?? []).concat(change));
+		}
+
+		const renames = new Map<FileChange, FileChange>();
+		for (const change of changes) {
+			// Re-downloads of tracked files that went missing locally are not renames
+			if (change.changeType !== "added" || this.state.files[change.path]) continue;
+
+			let deletion = change.previousPath ? unpaired.get(change.previousPath) : undefined;
+			if (!deletion) {
+				deletion = (deletionsBySha.get(change.sha) ?? []).find(d => unpaired.has(d.path));
+			}
+			if (deletion) {
+				unpaired.delete(deletion.path);
+				renames.set(change, { ...change, changeType: "renamed", previousPath: deletion.path });
+			}
+		}
+
+		if (renames.size > 0) {
+			this.logger.info(`Detected ${renames.size} rename(s)`);
+		}
+		return changes
+			.filter(change => change.changeType !== "deleted" || unpaired.has(change.path))
+			.map(change => renames.get(change) ?? (change.previousPath ? { ...change, previousPath: undefined } : change));
+	}
+
+	getFileState(path: string): FileSyncState | undefined {
+		return this.state.files[path];
+	}
+
+	updateFileState(
+		path: string,
+		sha: string,
+		details: Pick<FileSyncState, "lfsOid" | "mode" | "source"> = {}
+	): void {
+		const previous = this.state.files[path];
 		this.state.files[path] = {
 			path,
 			sha,
-			lastModified: Date.now()
+			lastModified: Date.now(),
+			...details,
+			// The compare API and pushes report no mode; keep the known one
+			mode: details.mode ?? previous?.mode
 		};
 	}
 
@@ -0,0 +1,100 @@
+import { Platform, Plugin } from "obsidian";
+import { SyncProgress } from "./types";
+
+export type IndicatorState = "idle" | "syncing" | "error";
+
+// One place for sync status instead of a Notice per batch. On desktop this
+// is a status bar item; mobile has no status bar, so a compact element is
+// pinned to the top of the screen instead.
+export class SyncStatusIndicator {
+	private statusEl: HTMLElement;
+	private current: SyncProgress | null = null;
+	private lastError: string | null = null;
+	private getLastSyncTime: () => number;
+	private onClick: (state: IndicatorState) => void;
+
+	constructor(
+		plugin: Plugin,
+		getLastSyncTime: () => number,
+		onClick: (state: IndicatorState) => void
+	) {
+		this.getLastSyncTime = getLastSyncTime;
+		this.onClick = onClick;
+
+		if (Platform.isMobile) {
+			this.statusEl = document.body.createDiv({ cls: "github-pull-status-mobile" });
+		} else {
+			this.statusEl = plugin.addStatusBarItem();
+			this.statusEl.addClass("github-pull-status-bar");
+		}
+		this.statusEl.addClass("mod-clickable");
+		plugin.registerDomEvent(this.statusEl, "click", () => this.onClick(this.state));
+		// Keeps the "synced 5m ago" text current
+		plugin.registerInterval(window.setInterval(() => this.render(), 60 * 1000));
+		this.render();
+	}
+
+	get state(): IndicatorState {
+		if (this.current) return "syncing";
+		return this.lastError ? "error" : "idle";
+	}
+
+	update(progress: SyncProgress): void {
+		if (progress.phase === "done") {
+			this.current = null;
+			const errors = progress.result?.errors ?? [];
+			this.lastError = errors.length > 0
+				? `${progress.profileName}: ${errors[0].message}${errors.length > 1 ? ` (+${errors.length - 1} more)` : ""}`
+				: null;
+		} else {
+			this.current = progress;
+		}
+		this.render();
+	}
+
+	// Removes the mobile element; the status bar item goes with the plugin
+	dispose(): void {
+		if (Platform.isMobile) {
+			this.statusEl.detach();
+		}
+	}
+
+	private render(): void {
+		this.statusEl.setText(this.describe());
+		this.statusEl.setAttr("aria-label", this.describeAction());
+		this.statusEl.toggleClass("github-pull-status-error", this.state === "error");
+	}
+
+	private describe(): string {
+		if (this.current) {
+			const { profileName, phase, completed, total } = this.current;
+			const percent = phase === "applying" && total > 0 ? ` ${Math.floor((completed / total) * 100)}%` : "…";
+			return `GitHub: syncing ${profileName}${percent}`;
+		}
+		if (this.lastError) {
+			return "GitHub: sync failed";
+		}
+		const lastSync = this.getLastSyncTime();
+		return lastSync > 0 ? `GitHub: synced ${formatAge(Date.now() - lastSync)}` : "GitHub: not synced";
+	}
+
+	private describeAction(): string {
+		switch (this.state) {
+			case "syncing":
+				return "Sync in progress - click to cancel";
+			case "error":
+				return `${this.lastError} - click for details`;
+			default:
+				return "Click to sync now";
+		}
+	}
+}
+
+function formatAge(ms: number): string {
+	const minutes = Math.floor(ms / 60000);
+	if (minutes < 1) return "just now";
+	if (minutes < 60) return `${minutes}m ago`;
+	const hours = Math.floor(minutes / 60);
+	if (hours < 24) return `${hours}h ago`;
+	return `${Math.floor(hours / 24)}d ago`;
+}
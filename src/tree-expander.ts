@@ -0,0 +1,291 @@
+import { GitHubAPI } from "./github-api";
+import { FileSource, GitHubFile, SymlinkHandling } from "./types";
+import { Logger } from "./logger";
+import { RateLimitError } from "./rate-limiter";
+
+export const GITMODULES_FILE = ".gitmodules";
+
+const SYMLINK_MODE = "120000";
+const MAX_LINK_HOPS = 8;
+// Submodules of submodules are followed this many levels deep
+const MAX_SUBMODULE_DEPTH = 3;
+
+export interface TreeExpanderOptions {
+	symlinks: SymlinkHandling;
+	submodules: boolean;
+}
+
+// True for listing entries TreeExpander replaces rather than downloads.
+export function isLinkedEntry(file: GitHubFile): boolean {
+	return file.type === "commit" || file.mode === SYMLINK_MODE;
+}
+
+// Turns a repository listing into the plain files written to the vault.
+// Symlinks become copies of the file or folder they point to (or are
+// dropped), and submodules are listed from their own repositories and placed
+// under their folder. Derived entries carry a `source` saying where their
+// bytes are downloaded from.
+export class TreeExpander {
+	private api: GitHubAPI;
+	private logger: Logger;
+	private options: TreeExpanderOptions;
+	// Keyed by blob SHA; a link blob's target can never change
+	private linkTargets = new Map<string, string>();
+	private submoduleAPIs = new Map<string, GitHubAPI>();
+
+	constructor(api: GitHubAPI, logger: Logger, options: TreeExpanderOptions) {
+		this.api = api;
+		this.logger = logger;
+		this.options = options;
+	}
+
+	async expand(files: GitHubFile[], commitSHA: string): Promise<GitHubFile[]> {
+		return this.expandTree(this.api, undefined, commitSHA, files, 0);
+	}
+
+	// API serving the bytes of a file with the given source
+	getAPI(source?: FileSource): GitHubAPI {
+		if (!source?.repository || !source.commit) {
+			return this.api;
+		}
+		return this.getSubmoduleAPI(source.repository, source.commit);
+	}
+
+	private async expandTree(
+		api: GitHubAPI,
+		repository: string | undefined,
+		commitSHA: string,
+		files: GitHubFile[],
+		depth: number
+	): Promise<GitHubFile[]> {
+		const sourceOf = (path: string): FileSource =>
+			repository ? { repository, commit: commitSHA, path } : { path };
+
+		const blobs = new Map<string, GitHubFile>();
+		const links = new Map<string, GitHubFile>();
+		const submodules: GitHubFile[] = [];
+		for (const file of files) {
+			if (file.type === "commit") {
+				submodules.push(file);
+			} else if (file.mode === SYMLINK_MODE) {
+				links.set(file.path, file);
+			} else {
+				blobs.set(file.path, file);
+			}
+		}
+
+		const result = Array.from(blobs.values()).map(file =>
+			repository ? { ...file, source: sourceOf(file.path) } : file
+		);
+
+		if (links.size > 0) {
+			if (this.options.symlinks === "skip") {
+				this.logger.info(`Skipping ${links.size} symlink(s)`, { repository });
+			} else {
+				result.push(...await this.copyLinkTargets(api, links, blobs, sourceOf));
+			}
+		}
+
+		if (submodules.length > 0) {
+			if (!this.options.submodules) {
+				this.logger.info(`Skipping ${submodules.length} submodule(s) - submodule sync is off`, { repository });
+			} else {
+				result.push(...await this.expandSubmodules(api, commitSHA, submodules, depth));
+			}
+		}
+
+		return result;
+	}
+
+	private async copyLinkTargets(
+		api: GitHubAPI,
+		links: Map<string, GitHubFile>,
+		blobs: Map<string, GitHubFile>,
+		sourceOf: (path: string) => FileSource
+	): Promise<GitHubFile[]> {
+		const targets = new Map<string, string>();
+		for (const link of links.values()) {
+			targets.set(link.path, await this.readLinkTarget(api, link.sha));
+		}
+
+		const copies: GitHubFile[] = [];
+		for (const link of links.values()) {
+			// Follow links to links until a file or folder is reached
+			let resolved = resolveLinkTarget(link.path, targets.get(link.path) ?? "");
+			for (let hops = 0; resolved !== null && links.has(resolved); hops++) {
+				resolved = hops < MAX_LINK_HOPS ? resolveLinkTarget(resolved, targets.get(resolved) ?? "") : null;
+			}
+			if (resolved === null) {
+				this.logger.warn(`Skipping symlink ${link.path}: target is outside the repository or loops`);
+				continue;
+			}
+
+			const target = blobs.get(resolved);
+			if (target) {
+				copies.push({ ...target, path: link.path, source: sourceOf(resolved) });
+				continue;
+			}
+
+			// A link to the repository root would copy everything into itself
+			const folder = `${resolved}/`;
+			const inFolder = resolved
+				? Array.from(blobs.values()).filter(file => file.path.startsWith(folder))
+				: [];
+			if (inFolder.length === 0) {
+				this.logger.warn(`Skipping symlink ${link.path}: target ${resolved || "/"} not found`);
+				continue;
+			}
+			for (const file of inFolder) {
+				copies.push({
+					...file,
+					path: `${link.path}/${file.path.substring(folder.length)}`,
+					source: sourceOf(file.path)
+				});
+			}
+		}
+		return copies;
+	}
+
+	private async readLinkTarget(api: GitHubAPI, sha: string): Promise<string> {
+		let target = this.linkTargets.get(sha);
+		if (target === undefined) {
+			target = await api.getBlobText(sha);
+			this.linkTargets.set(sha, target);
+		}
+		return target;
+	}
+
+	private async expandSubmodules(
+		api: GitHubAPI,
+		commitSHA: string,
+		submodules: GitHubFile[],
+		depth: number
+	): Promise<GitHubFile[]> {
+		if (depth >= MAX_SUBMODULE_DEPTH) {
+			this.logger.warn(`Skipping ${submodules.length} submodule(s) nested more than ${MAX_SUBMODULE_DEPTH} levels deep`);
+			return [];
+		}
+
+		const gitmodules = await api.getOptionalTextFile(GITMODULES_FILE, commitSHA);
+		const urls = gitmodules ? parseGitmodules(gitmodules) : new Map<string, string>();
+
+		const files: GitHubFile[] = [];
+		for (const submodule of submodules) {
+			const url = urls.get(submodule.path);
+			const repository = url ? toGitHubRepository(url, api.repositoryName, api.host) : null;
+			if (!repository) {
+				this.logger.warn(url
+					? `Skipping submodule ${submodule.path}: ${url} is not a GitHub repository`
+					: `Skipping submodule ${submodule.path}: no entry in ${GITMODULES_FILE}`);
+				continue;
+			}
+
+			// Failing here instead of skipping keeps the submodule's files from
+			// being treated as deleted upstream.
+			const submoduleAPI = this.getSubmoduleAPI(repository, submodule.sha);
+			let listing: GitHubFile[];
+			try {
+				listing = await submoduleAPI.getRepositoryTree(submodule.sha);
+			} catch (error) {
+				if (error instanceof RateLimitError) throw error;
+				throw new Error(`Cannot read submodule ${submodule.path} (${repository}): ${error.message}`);
+			}
+
+			const expanded = await this.expandTree(submoduleAPI, repository, submodule.sha, listing, depth + 1);
+			this.logger.info(`Submodule ${submodule.path} listed from ${repository}`, {
+				commit: submodule.sha,
+				files: expanded.length
+			});
+			for (const file of expanded) {
+				files.push({ ...file, path: `${submodule.path}/${file.path}` });
+			}
+		}
+		return files;
+	}
+
+	private getSubmoduleAPI(repository: string, commit: string): GitHubAPI {
+		const key = `${repository}@${commit}`;
+		let api = this.submoduleAPIs.get(key);
+		if (!api) {
+			api = this.api.forRepository(repository, commit);
+			this.submoduleAPIs.set(key, api);
+		}
+		return api;
+	}
+}
+
+// Resolves a symlink's stored target against the link's folder. Returns null
+// for absolute targets and ones that climb out of the repository.
+function resolveLinkTarget(linkPath: string, target: string): string | null {
+	if (!target || target.startsWith("/")) {
+		return null;
+	}
+	const parts = linkPath.split("/").slice(0, -1);
+	for (const segment of target.split("/")) {
+		if (segment === "" || segment === ".") continue;
+		if (segment === "..") {
+			if (parts.length === 0) return null;
+			parts.pop();
+		} else {
+			parts.push(segment);
+		}
+	}
+	return parts.join("/");
+}
+
+// Maps each submodule path in a .gitmodules file to its URL.
+function parseGitmodules(text: string): Map<string, string> {
+	const urls = new Map<string, string>();
+	let current: { path?: string; url?: string } | null = null;
+	const flush = () => {
+		if (current?.path && current.url) {
+			urls.set(current.path, current.url);
+		}
+	};
+
+	for (const rawLine of text.split(/\r?\n/)) {
+		const line = rawLine.trim();
+		if (!line || line.startsWith("#") || line.startsWith(";")) continue;
+		if (line.startsWith("[")) {
+			flush();
+			current = /^\[submodule\s/.test(line) ? {} : null;
+			continue;
+		}
+		const match = line.match(/^(\w+)\s*=\s*(.*)$/);
+		if (current && match) {
+			if (match[1] === "path") current.path = match[2].replace(/\/+$/, "");
+			if (match[1] === "url") current.url = match[2];
+		}
+	}
+	flush();
+	return urls;
+}
+
+// Returns "owner/repo" for submodule URLs on the parent repository's host
+// (GitHub.com or an Enterprise Server). Relative URLs such as "../other.git"
+// are resolved against the parent repository.
+function toGitHubRepository(url: string, parentRepository: string, host: string): string | null {
+	const trimmed = url.trim().replace(/\/+$/, "").replace(/\.git$/, "");
+	if (trimmed.startsWith("./") || trimmed.startsWith("../")) {
+		const parts = parentRepository.split("/");
+		for (const segment of trimmed.split("/")) {
+			if (segment === "..") {
+				parts.pop();
+			} else if (segment !== ".") {
+				parts.push(segment);
+			}
+		}
+		return parts.length === 2 && parts.every(part => !!part) ? parts.join("/") : null;
+	}
+
+	// Submodules are fetched with the parent's token and API, so other hosts are skipped
+	const hostPattern = host === "github.com" ? "(?:www\\.)?github\\.com" : escapeRegExp(host);
+	const match = trimmed.match(new RegExp(
+		`^(?:https?:\\/\\/(?:[^@/]+@)?${hostPattern}\\/|git@${hostPattern}:|ssh:\\/\\/git@${hostPattern}\\/)([^/\\s]+)\\/([^/\\s]+)$`
+	));
+	return match ? `${match[1]}/${match[2]}` : null;
+}
+
+function escapeRegExp(text: string): string {
+	return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
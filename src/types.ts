@@ -1,25 +1,120 @@
-export interface GitHubSyncSettings {
+export type SymlinkHandling = "copy" | "skip";
+
+export type ConflictResolution = "keep-local" | "take-remote" | "keep-both";
+
+// What a profile tracks: the moving head of `branch`, or a fixed tag or
+// commit given by `pinnedRef`.
+export type RefType = "branch" | "tag" | "commit";
+
+// One repository synced into the vault. Each profile has its own
+// credentials, folder mapping, filters and sync state file.
+export interface SyncProfile {
+	id: string;
+	name: string;
 	repositoryUrl: string;
 	personalAccessToken: string;
 	branch: string;
-	autoSyncOnLaunch: boolean;
+	refType: RefType;
+	// Tag name or full commit SHA when refType is "tag" or "commit"
+	pinnedRef: string;
+	// Glob patterns (.gitignore syntax); see PathFilter
+	includePatterns: string[];
+	excludePatterns: string[];
+	// Repository subfolder to sync and vault folder to place it in; see PathMapper
+	remotePathPrefix: string;
+	localTargetFolder: string;
+	// GitHub Enterprise Server endpoints; empty to derive them from repositoryUrl
+	apiBaseUrl: string;
+	rawBaseUrl: string;
 	lastSyncTime: number;
 }
 
-export const DEFAULT_SETTINGS: GitHubSyncSettings = {
+export interface GitHubSyncSettings {
+	profiles: SyncProfile[];
+	autoSyncOnLaunch: boolean;
+	// 0 disables interval sync
+	syncIntervalMinutes: number;
+	syncOnFocus: boolean;
+	// Background syncs are skipped if any sync ran more recently than this
+	minMinutesBetweenSyncs: number;
+	conflictResolution: ConflictResolution;
+	// Undo points kept per profile (0 disables snapshots) and their size cap
+	snapshotsToKeep: number;
+	maxSnapshotMB: number;
+	// Git LFS objects larger than this are not downloaded (0 = no limit)
+	maxLfsFileMB: number;
+	symlinkHandling: SymlinkHandling;
+	syncSubmodules: boolean;
+	// Size cap of the local blob cache (0 disables it)
+	blobCacheMB: number;
+}
+
+export const DEFAULT_PROFILE: SyncProfile = {
+	id: "default",
+	name: "Default",
 	repositoryUrl: "",
 	personalAccessToken: "",
 	branch: "main",
-	autoSyncOnLaunch: true,
+	refType: "branch",
+	pinnedRef: "",
+	includePatterns: [],
+	excludePatterns: [],
+	remotePathPrefix: "",
+	localTargetFolder: "",
+	apiBaseUrl: "",
+	rawBaseUrl: "",
 	lastSyncTime: 0
 };
 
+export const DEFAULT_SETTINGS: GitHubSyncSettings = {
+	profiles: [DEFAULT_PROFILE],
+	autoSyncOnLaunch: true,
+	syncIntervalMinutes: 0,
+	syncOnFocus: false,
+	minMinutesBetweenSyncs: 5,
+	conflictResolution: "keep-both",
+	snapshotsToKeep: 5,
+	maxSnapshotMB: 100,
+	maxLfsFileMB: 50,
+	symlinkHandling: "copy",
+	syncSubmodules: false,
+	blobCacheMB: 0
+};
+
 export interface GitHubFile {
 	path: string;
+	// Git file mode: "100644"/"100755" for files, "120000" for symlinks,
+	// "160000" for submodules (type "commit", sha is the submodule commit)
+	mode: string;
 	sha: string;
 	size: number;
-	type: "blob" | "tree";
+	type: "blob" | "tree" | "commit";
 	url: string;
+	// Set on entries TreeExpander derives from symlinks and submodules
+	source?: FileSource;
+}
+
+// Where a vault file's bytes come from when that is not `path` in the synced
+// repository: a symlink's target, or a file in a submodule's own repository.
+export interface FileSource {
+	path: string;
+	// "owner/repo" and commit of the submodule; absent for the synced repository
+	repository?: string;
+	commit?: string;
+}
+
+// Explicit base URLs for a GitHub host, overriding the ones derived from
+// the repository URL
+export interface GitHubEndpointOverrides {
+	apiUrl?: string;
+	rawUrl?: string;
+}
+
+// What the connection test found at the profile's host
+export interface GitHubServerInfo {
+	host: string;
+	// GitHub Enterprise Server version; null on GitHub.com
+	version: string | null;
 }
 
 export interface GitHubTreeResponse {
@@ -29,6 +124,35 @@ export interface GitHubTreeResponse {
 	truncated: boolean;
 }
 
+export interface GitHubRefResponse {
+	ref: string;
+	object: {
+		sha: string;
+		type: string;
+	};
+}
+
+export interface GitHubTagResponse {
+	sha: string;
+	object: {
+		sha: string;
+		type: string;
+	};
+}
+
+export interface GitHubCompareFile {
+	filename: string;
+	previous_filename?: string;
+	status: "added" | "removed" | "modified" | "renamed" | "copied" | "changed" | "unchanged";
+	sha: string;
+}
+
+export interface GitHubCompareResponse {
+	status: "ahead" | "behind" | "identical" | "diverged";
+	total_commits: number;
+	files?: GitHubCompareFile[];
+}
+
 export interface GitHubContentResponse {
 	name: string;
 	path: string;
@@ -45,16 +169,88 @@ export interface GitHubBlobResponse {
 	encoding: "base64";
 }
 
+export interface GitHubCommitResponse {
+	sha: string;
+	tree: {
+		sha: string;
+	};
+}
+
+// Entry for POST /git/trees. A null sha removes the path from the base tree.
+export interface GitHubTreeEntry {
+	path: string;
+	// Regular or executable file
+	mode: "100644" | "100755";
+	type: "blob";
+	sha: string | null;
+}
+
+// Git LFS pointer contents; the real object is addressed by its SHA-256
+export interface LfsPointer {
+	oid: string;
+	size: number;
+}
+
+// Response of the LFS batch API (POST <repo>.git/info/lfs/objects/batch)
+export interface LfsBatchResponse {
+	objects: Array<{
+		oid: string;
+		size: number;
+		actions?: {
+			download?: {
+				href: string;
+				header?: Record<string, string>;
+			};
+		};
+		error?: {
+			code: number;
+			message: string;
+		};
+	}>;
+}
+
+// File bytes as written to the vault. `lfs` is set when the repository holds
+// an LFS pointer and `content` is the object it points to.
+export interface DownloadedFile {
+	content: ArrayBuffer;
+	lfs?: LfsPointer;
+}
+
 export interface FileSyncState {
+	// Repository path, like the keys of VaultSyncState.files
 	path: string;
 	sha: string;
 	lastModified: number;
+	// SHA-256 of the real object when `sha` names a Git LFS pointer
+	lfsOid?: string;
+	// Git file mode ("100644", "100755"), reused when the file is pushed;
+	// absent for files synced before modes were recorded
+	mode?: string;
+	// Copied from a symlink target or submodule; never pushed back
+	source?: FileSource;
 }
 
 export interface VaultSyncState {
 	lastSyncTimestamp: number;
 	lastCommitSHA: string;
+	// Filter and folder-mapping settings in effect at lastCommitSHA. When they
+	// change, previously skipped paths have to be found with a full tree diff.
+	filterSignature?: string;
 	files: Record<string, FileSyncState>;
+	// Present while a sync is applying changes; left behind if it was cut short
+	journal?: SyncJournal;
+}
+
+// Changes a sync still has to apply, checkpointed while it runs so the next
+// run can finish an interrupted sync instead of starting over.
+export interface SyncJournal {
+	headCommitSHA: string;
+	filterSignature: string;
+	startedAt: number;
+	// Some changes were deselected or failed, so finishing must not record
+	// headCommitSHA as fully synced
+	partial: boolean;
+	pending: FileChange[];
 }
 
 export interface SyncResult {
@@ -62,17 +258,99 @@ export interface SyncResult {
 	filesAdded: number;
 	filesModified: number;
 	filesDeleted: number;
+	filesRenamed: number;
+	// LFS objects above the size limit, left out of the vault, and their paths
+	filesSkipped: number;
+	skippedPaths: string[];
+	// Stopped by the user; files applied before that are kept and tracked
+	cancelled: boolean;
+	// Set when the API rate limit stopped the sync; the rest is applied
+	// after this time (epoch ms)
+	deferredUntil?: number;
+	conflicts: SyncConflict[];
+	errors: SyncError[];
+}
+
+// GitHub API budget of a token; `reset` is in epoch seconds
+export interface RateLimitStatus {
+	limit: number;
+	remaining: number;
+	reset: number;
+}
+
+// Reported by SyncEngine while it runs; drives the status indicator
+export interface SyncProgress {
+	profileId: string;
+	profileName: string;
+	phase: "checking" | "applying" | "done";
+	completed: number;
+	total: number;
+	// Set once phase is "done"
+	result?: SyncResult;
+}
+
+// What started a sync; recorded in the sync history
+export type SyncTrigger = "manual" | "preview" | "launch" | "interval" | "focus" | "resume";
+
+// One file a sync wrote, moved or deleted, by vault path
+export interface SyncHistoryFile {
+	path: string;
+	changeType: FileChange["changeType"];
+	previousPath?: string;
+}
+
+// A finished sync as stored in the history file. Conflict and error paths
+// are vault paths.
+export interface SyncHistoryEntry extends SyncResult {
+	id: string;
+	profileId: string;
+	profileName: string;
+	trigger: SyncTrigger;
+	// Finished a sync an earlier run left incomplete
+	resumed: boolean;
+	startedAt: number;
+	finishedAt: number;
+	// Commit the vault was on before the sync; "" when it was a full sync
+	fromCommit: string;
+	toCommit: string;
+	files: SyncHistoryFile[];
+}
+
+export interface SyncConflict {
+	path: string;
+	resolution: ConflictResolution;
+	// Where the local version was saved when resolution is "keep-both"
+	conflictPath?: string;
+}
+
+export interface PushResult {
+	success: boolean;
+	filesAdded: number;
+	filesModified: number;
+	filesDeleted: number;
+	// New branch head, when a commit was created
+	commitSHA?: string;
 	errors: SyncError[];
 }
 
 export interface SyncError {
 	path: string;
 	message: string;
-	type: "network" | "auth" | "file" | "unknown";
+	// "integrity": the downloaded bytes did not match the blob SHA
+	type: "network" | "auth" | "file" | "integrity" | "unknown";
 }
 
 export interface FileChange {
+	// Repository path; PathMapper gives the vault location
 	path: string;
 	sha: string;
-	changeType: "added" | "modified" | "deleted";
+	changeType: "added" | "modified" | "deleted" | "renamed";
+	// Remote size in bytes and Git file mode; absent for deletions and
+	// changes from the compare API
+	size?: number;
+	mode?: string;
+	source?: FileSource;
+	// Old repository path of a rename. On "added" changes from the compare
+	// API it is a hint that SyncStateManager.detectRenames resolves.
+	previousPath?: string;
 }
\ No newline at end of file
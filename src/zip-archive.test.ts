@@ -0,0 +1,120 @@
+import { describe, it } from "node:test";
+import * as assert from "node:assert";
+import { deflateRawSync } from "node:zlib";
+import { RepositoryArchive } from "./zip-archive";
+
+interface TestEntry {
+	name: string;
+	content?: string;
+	// 0 stored, 8 deflate; anything else to test rejection
+	method?: number;
+}
+
+// Builds a zip archive the way GitHub lays out a zipball. CRCs are left at
+// zero since the reader checks content by blob SHA instead.
+function buildZip(entries: TestEntry[], comment = ""): ArrayBuffer {
+	const locals: Buffer[] = [];
+	const centrals: Buffer[] = [];
+	let offset = 0;
+	for (const entry of entries) {
+		const name = Buffer.from(entry.name);
+		const data = Buffer.from(entry.content ?? "");
+		const method = entry.method ?? 8;
+		const compressed = method === 8 ? deflateRawSync(data) : data;
+
+		const local = Buffer.alloc(30);
+		local.writeUInt32LE(0x04034b50, 0);
+		local.writeUInt16LE(20, 4);
+		local.writeUInt16LE(method, 8);
+		local.writeUInt32LE(compressed.length, 18);
+		local.writeUInt32LE(data.length, 22);
+		local.writeUInt16LE(name.length, 26);
+		locals.push(local, name, compressed);
+
+		const central = Buffer.alloc(46);
+		central.writeUInt32LE(0x02014b50, 0);
+		central.writeUInt16LE(20, 4);
+		central.writeUInt16LE(20, 6);
+		central.writeUInt16LE(method, 10);
+		central.writeUInt32LE(compressed.length, 20);
+		central.writeUInt32LE(data.length, 24);
+		central.writeUInt16LE(name.length, 28);
+		central.writeUInt32LE(offset, 42);
+		centrals.push(central, name);
+
+		offset += local.length + name.length + compressed.length;
+	}
+
+	const centralDirectory = Buffer.concat(centrals);
+	const commentBytes = Buffer.from(comment);
+	const end = Buffer.alloc(22);
+	end.writeUInt32LE(0x06054b50, 0);
+	end.writeUInt16LE(entries.length, 8);
+	end.writeUInt16LE(entries.length, 10);
+	end.writeUInt32LE(centralDirectory.length, 12);
+	end.writeUInt32LE(offset, 16);
+	end.writeUInt16LE(commentBytes.length, 20);
+
+	const zip = Buffer.concat([...locals, centralDirectory, end, commentBytes]);
+	return zip.buffer.slice(zip.byteOffset, zip.byteOffset + zip.length) as ArrayBuffer;
+}
+
+function readText(archive: RepositoryArchive, path: string): string | null {
+	const content = archive.read(path);
+	return content ? new TextDecoder().decode(content) : null;
+}
+
+const TOP = "owner-repo-0123abc/";
+
+describe("RepositoryArchive", () => {
+	it("reads files relative to the top-level folder", () => {
+		const archive = new RepositoryArchive(buildZip([
+			{ name: TOP },
+			{ name: `${TOP}README.md`, content: "# Vault\n".repeat(50) },
+			{ name: `${TOP}notes/`, method: 0 },
+			{ name: `${TOP}notes/daily/2024-01-01.md`, content: "Stored as is", method: 0 },
+			{ name: `${TOP}notes/日本語 note.md`, content: "Unicode path" }
+		]));
+
+		assert.strictEqual(archive.fileCount, 3);
+		assert.strictEqual(readText(archive, "README.md"), "# Vault\n".repeat(50));
+		assert.strictEqual(readText(archive, "notes/daily/2024-01-01.md"), "Stored as is");
+		assert.strictEqual(readText(archive, "notes/日本語 note.md"), "Unicode path");
+	});
+
+	it("returns null for paths not in the archive", () => {
+		const archive = new RepositoryArchive(buildZip([{ name: `${TOP}a.md`, content: "a" }]));
+		assert.strictEqual(archive.read("b.md"), null);
+		assert.strictEqual(archive.read("notes/"), null);
+	});
+
+	it("reads empty files", () => {
+		const archive = new RepositoryArchive(buildZip([{ name: `${TOP}empty.md` }]));
+		assert.strictEqual(archive.read("empty.md")?.byteLength, 0);
+	});
+
+	it("finds the end record behind an archive comment", () => {
+		// GitHub stores the commit SHA as the archive comment
+		const archive = new RepositoryArchive(buildZip([{ name: `${TOP}a.md`, content: "a" }], "0123abc".repeat(6)));
+		assert.strictEqual(readText(archive, "a.md"), "a");
+	});
+
+	it("rejects data that is not a zip archive", () => {
+		const text = new TextEncoder().encode("Not Found".repeat(10));
+		assert.throws(() => new RepositoryArchive(text.buffer as ArrayBuffer), /Not a zip archive/);
+	});
+
+	it("rejects unsupported compression methods", () => {
+		assert.throws(
+			() => new RepositoryArchive(buildZip([{ name: `${TOP}a.md`, content: "a", method: 12 }])),
+			/Unsupported zip compression method 12/
+		);
+	});
+
+	it("rejects an entry without its local header", () => {
+		const zip = buildZip([{ name: `${TOP}a.md`, content: "a" }]);
+		new DataView(zip).setUint32(0, 0);
+		const archive = new RepositoryArchive(zip);
+		assert.throws(() => archive.read("a.md"), /no local header/);
+	});
+});
@@ -0,0 +1,103 @@
+import { inflateRaw } from "./inflate";
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_DIRECTORY_ENTRY = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+// Fixed part of the end record plus the longest possible comment
+const MAX_END_RECORD_SEARCH = 22 + 0xffff;
+
+const METHOD_STORED = 0;
+const METHOD_DEFLATE = 8;
+
+interface ZipEntry {
+	method: number;
+	compressedSize: number;
+	size: number;
+	localHeaderOffset: number;
+}
+
+// A repository zipball held in memory. GitHub puts every file under one
+// top-level "<owner>-<repo>-<sha>/" folder; paths here are relative to it,
+// like repository paths. Entries are only inflated when read.
+export class RepositoryArchive {
+	private data: Uint8Array;
+	private view: DataView;
+	private entries = new Map<string, ZipEntry>();
+
+	constructor(buffer: ArrayBuffer) {
+		this.data = new Uint8Array(buffer);
+		this.view = new DataView(buffer);
+		this.readCentralDirectory();
+	}
+
+	get fileCount(): number {
+		return this.entries.size;
+	}
+
+	// Bytes of the file at a repository path, or null when the archive has
+	// no such file
+	read(path: string): ArrayBuffer | null {
+		const entry = this.entries.get(path);
+		if (!entry) {
+			return null;
+		}
+
+		const offset = entry.localHeaderOffset;
+		if (this.view.getUint32(offset, true) !== LOCAL_FILE_HEADER) {
+			throw new Error(`Corrupt zip archive: no local header for ${path}`);
+		}
+		// The local header repeats the name and may carry a different extra field
+		const start = offset + 30 + this.view.getUint16(offset + 26, true) + this.view.getUint16(offset + 28, true);
+		const compressed = this.data.subarray(start, start + entry.compressedSize);
+
+		const bytes = entry.method === METHOD_STORED
+			? compressed.slice()
+			: inflateRaw(compressed, entry.size);
+		return bytes.buffer as ArrayBuffer;
+	}
+
+	private readCentralDirectory(): void {
+		const end = this.findEndRecord();
+		const count = this.view.getUint16(end + 10, true);
+		let offset = this.view.getUint32(end + 16, true);
+		if (count === 0xffff || offset === 0xffffffff) {
+			throw new Error("Zip64 archives are not supported");
+		}
+
+		const decoder = new TextDecoder();
+		for (let i = 0; i < count; i++) {
+			if (this.view.getUint32(offset, true) !== CENTRAL_DIRECTORY_ENTRY) {
+				throw new Error("Corrupt zip archive: bad central directory");
+			}
+			const method = this.view.getUint16(offset + 10, true);
+			const compressedSize = this.view.getUint32(offset + 20, true);
+			const size = this.view.getUint32(offset + 24, true);
+			const nameLength = this.view.getUint16(offset + 28, true);
+			const extraLength = this.view.getUint16(offset + 30, true);
+			const commentLength = this.view.getUint16(offset + 32, true);
+			const localHeaderOffset = this.view.getUint32(offset + 42, true);
+			const name = decoder.decode(this.data.subarray(offset + 46, offset + 46 + nameLength));
+			offset += 46 + nameLength + extraLength + commentLength;
+
+			// Skip folders and the top-level folder itself
+			const slash = name.indexOf("/");
+			if (name.endsWith("/") || slash === -1) {
+				continue;
+			}
+			if (method !== METHOD_STORED && method !== METHOD_DEFLATE) {
+				throw new Error(`Unsupported zip compression method ${method} for ${name}`);
+			}
+			this.entries.set(name.substring(slash + 1), { method, compressedSize, size, localHeaderOffset });
+		}
+	}
+
+	private findEndRecord(): number {
+		const stop = Math.max(0, this.data.length - MAX_END_RECORD_SEARCH);
+		for (let offset = this.data.length - 22; offset >= stop; offset--) {
+			if (this.view.getUint32(offset, true) === END_OF_CENTRAL_DIRECTORY) {
+				return offset;
+			}
+		}
+		throw new Error("Not a zip archive");
+	}
+}